@@ -1,11 +1,33 @@
-import { Room } from "./Room";
+import { Room, RoomSnapshot } from "./Room";
 import { HookManager } from "./hooks/HookManager";
 import { AVAILABLE_EXPANSIONS } from "./expansions";
+import { ExpansionOptions } from "./expansions/types";
+import { defaultExpansionOptions } from "./expansions/validation";
+import { RoomStore } from "./persistence/types";
+import { TurnTimers } from "./TurnTimers";
+import { SpectatorFeed } from "./SpectatorFeed";
 
 export class GameManager {
   rooms: Map<string, Room> = new Map();
 
-  createRoom(minPlayers?: number, expansions?: string[], io?: any): Room {
+  // Rooms waiting to be written to the store (flushed on the next tick)
+  private dirtyRooms: Set<string> = new Set();
+  private flushScheduled = false;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private store?: RoomStore,
+    private turnTimers?: TurnTimers,
+    private spectatorFeed?: SpectatorFeed
+  ) { }
+
+  createRoom(
+    minPlayers?: number,
+    expansions?: string[],
+    io?: any,
+    seed?: string | number,
+    expansionOptions?: Record<string, ExpansionOptions>
+  ): Room {
     const roomId = this.generateRoomId();
 
     // Create a new HookManager for this room (isolated from other rooms)
@@ -13,11 +35,14 @@ export class GameManager {
 
     // Install expansions for this room BEFORE creating the room
     if (expansions && expansions.length > 0) {
-      this.installExpansions(expansions, roomHookManager, io);
+      this.installExpansions(expansions, roomHookManager, io, expansionOptions);
     }
 
-    const room = new Room(roomId, minPlayers, expansions, roomHookManager);
+    const room = new Room(roomId, minPlayers, expansions, roomHookManager, seed, expansionOptions);
     this.rooms.set(roomId, room);
+    console.log(`[GameManager] Room ${roomId} created with seed ${room.rng.seed}`);
+    this.trackRoom(room);
+    this.scheduleSave(room);
 
     return room;
   }
@@ -25,12 +50,19 @@ export class GameManager {
   /**
    * Install expansions directly on a specific HookManager
    * Bypasses ExpansionRegistry to avoid global state issues
+   * Each expansion receives its options from `options` over its declared defaults
    */
-  installExpansions(expansionIds: string[], hookManager: HookManager, io?: any): void {
+  installExpansions(
+    expansionIds: string[],
+    hookManager: HookManager,
+    io?: any,
+    options: Record<string, ExpansionOptions> = {}
+  ): void {
     expansionIds.forEach(id => {
       const expansion = AVAILABLE_EXPANSIONS[id as keyof typeof AVAILABLE_EXPANSIONS];
       if (expansion) {
-        expansion.install(hookManager, io);
+        const expansionOptions = { ...defaultExpansionOptions(expansion), ...options[id] };
+        hookManager.installAs(id, () => expansion.install(hookManager, io, expansionOptions));
         console.log(`[GameManager] Installed expansion ${expansion.name} for room`);
       } else {
         console.warn(`[GameManager] Expansion not found: ${id}`);
@@ -38,12 +70,157 @@ export class GameManager {
     });
   }
 
+  /**
+   * Change a lobby's expansions: the old ones are uninstalled from the room's
+   * hook manager and the new ones installed with their options
+   */
+  setExpansions(
+    room: Room,
+    expansionIds: string[],
+    options: Record<string, ExpansionOptions> = {},
+    io?: any
+  ): boolean {
+    return room.replaceExpansions(expansionIds, options, (hookManager) =>
+      this.installExpansions(expansionIds, hookManager, io, options)
+    );
+  }
+
   getRoom(roomId: string): Room | undefined {
     return this.rooms.get(roomId);
   }
 
   removeRoom(roomId: string) {
+    this.rooms.get(roomId)?.uninstallExpansions();
     this.rooms.delete(roomId);
+    this.dirtyRooms.delete(roomId);
+    this.turnTimers?.clear(roomId);
+    this.spectatorFeed?.clear(roomId);
+
+    if (this.store) {
+      const store = this.store;
+      this.enqueueWrite(() => store.delete(roomId));
+    }
+  }
+
+  /**
+   * Build a full snapshot of a room, including state owned by its expansions
+   */
+  snapshotRoom(room: Room): RoomSnapshot {
+    const snapshot = room.toSnapshot();
+
+    room.expansions.forEach(id => {
+      const expansion = AVAILABLE_EXPANSIONS[id as keyof typeof AVAILABLE_EXPANSIONS];
+      if (expansion && expansion.serializeState) {
+        snapshot.expansionState[id] = expansion.serializeState(room);
+      }
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Rebuild a room from a snapshot: re-install its expansions on a fresh
+   * HookManager, restore base state, then hand expansion state back to each plugin
+   */
+  restoreRoom(snapshot: RoomSnapshot, io?: any): Room {
+    const roomHookManager = new HookManager();
+    if (snapshot.expansions && snapshot.expansions.length > 0) {
+      this.installExpansions(snapshot.expansions, roomHookManager, io, snapshot.expansionOptions);
+    }
+
+    const room = Room.fromSnapshot(snapshot, roomHookManager);
+
+    room.expansions.forEach(id => {
+      const expansion = AVAILABLE_EXPANSIONS[id as keyof typeof AVAILABLE_EXPANSIONS];
+      if (expansion && expansion.restoreState) {
+        expansion.restoreState(room, snapshot.expansionState?.[id]);
+      }
+    });
+
+    this.rooms.set(room.id, room);
+    this.trackRoom(room);
+
+    // Re-arm the deadline of the phase the room was restored in (fires at once if already expired)
+    this.turnTimers?.sync(room);
+
+    return room;
+  }
+
+  /**
+   * Load every room from the store (called once on boot)
+   */
+  async restoreRooms(io?: any): Promise<Room[]> {
+    if (!this.store) return [];
+
+    const snapshots = await this.store.loadAll();
+    const restored: Room[] = [];
+
+    for (const snapshot of snapshots) {
+      try {
+        restored.push(this.restoreRoom(snapshot, io));
+      } catch (error) {
+        console.error(`[GameManager] Failed to restore room ${snapshot.id}:`, error);
+      }
+    }
+
+    console.log(`[GameManager] Restored ${restored.length} room(s) from store`);
+    return restored;
+  }
+
+  /**
+   * Mark a room as changed; it is written to the store on the next tick.
+   * Several changes within the same tick are coalesced into one write.
+   */
+  scheduleSave(room: Room) {
+    if (!this.store) return;
+
+    this.dirtyRooms.add(room.id);
+    if (this.flushScheduled) return;
+
+    this.flushScheduled = true;
+    setImmediate(() => {
+      this.flushScheduled = false;
+      this.flush();
+    });
+  }
+
+  /**
+   * Write every pending room to the store and wait for all queued writes
+   */
+  flush(): Promise<void> {
+    if (this.store && this.dirtyRooms.size > 0) {
+      const store = this.store;
+      const snapshots = Array.from(this.dirtyRooms)
+        .map(id => this.rooms.get(id))
+        .filter((room): room is Room => !!room)
+        .map(room => this.snapshotRoom(room));
+      this.dirtyRooms.clear();
+
+      this.enqueueWrite(async () => {
+        for (const snapshot of snapshots) {
+          await store.save(snapshot);
+        }
+      });
+    }
+
+    return this.writeQueue;
+  }
+
+  private trackRoom(room: Room) {
+    room.onStateChange = () => {
+      this.scheduleSave(room);
+      this.turnTimers?.sync(room);
+    };
+    room.onBroadcast = (event, payload) => {
+      this.spectatorFeed?.publish(room, event, payload);
+    };
+  }
+
+  // Serialize store writes so an older snapshot never overwrites a newer one
+  private enqueueWrite(write: () => Promise<void>) {
+    this.writeQueue = this.writeQueue
+      .then(write)
+      .catch(error => console.error("[GameManager] Failed to write to room store:", error));
   }
 
   private generateRoomId(): string {
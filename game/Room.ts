@@ -3,38 +3,173 @@ import {
   MAX_PLAYERS,
   SPY_COUNT,
   MISSION_CONFIG,
-  MAX_REJECTIONS,
+  MISSION_FAILS_REQUIRED,
   MISSIONS_TO_SUCCEED,
   MISSIONS_TO_FAIL,
 } from "./constants";
 import { HookManager } from "./hooks/HookManager";
+import { GameEvent, GameEventPayloads, GameEventType } from "./events/types";
+import { Rng } from "./rng/Rng";
+import {
+  DEFAULT_TURN_TIMER_CONFIG,
+  PhaseDeadline,
+  TurnTimerConfig,
+  getPhaseTimeoutSeconds,
+} from "./TurnTimers";
+import {
+  DEFAULT_ROOM_RULES,
+  MISSION_COUNT,
+  RoomRules,
+  TARGETING_MISSIONS_BEFORE_LAST,
+  cloneRoomRules,
+} from "./RoomRules";
+import { KnowledgeModel } from "./knowledge/KnowledgeModel";
+import { PlayerKnowledge } from "./knowledge/types";
+import { getExpansion } from "./expansions";
+import { ExpansionOptions, ExpansionPhaseTimeout } from "./expansions/types";
+import { defaultExpansionOptions } from "./expansions/validation";
+
+/**
+ * Registry of game phases. Expansions add their own phases by augmenting this interface
+ * (`declare module "../../Room" { interface GamePhaseRegistry { MY_PHASE: true } }`)
+ * and listing them in ExpansionPlugin.phases so rooms accept them at runtime.
+ */
+export interface GamePhaseRegistry {
+  LOBBY: true;
+  TEAM_SELECTION: true;
+  VOTE: true;
+  MISSION: true;
+  RESULTS: true;
+  GAME_OVER: true;
+}
+export type GamePhase = keyof GamePhaseRegistry;
+
+// Phases every room has, whatever its expansions
+export const CORE_PHASES: GamePhase[] = ["LOBBY", "TEAM_SELECTION", "VOTE", "MISSION", "RESULTS", "GAME_OVER"];
 
-export type GamePhase =
-  | "LOBBY"
-  | "TEAM_SELECTION"
-  | "VOTE"
-  | "MISSION"
-  | "ASSASSINATION"
-  | "RESULTS"
-  | "GAME_OVER";
 export type Role = "RESISTANCE" | "SPY";
-export type SpecialRole = "MERLIN" | "ASSASSIN" | null;
+export type SpecialRole =
+  | "MERLIN"
+  | "ASSASSIN"
+  | "PERCIVAL"
+  | "MORGANA"
+  | "MORDRED"
+  | "OBERON"
+  | "RESISTANCE_CHIEF"
+  | "RESISTANCE_HUNTER"
+  | "SPY_CHIEF"
+  | "SPY_HUNTER"
+  | "DUMMY_AGENT"
+  | "GOOD_LANCELOT"
+  | "EVIL_LANCELOT"
+  | null;
 
 export interface Player {
   id: string; // socket.id (changes on reconnect)
   playerId: string; // permanent UUID for this player
   nickname: string;
   role?: Role;
+  // Role the player was dealt, once switchAllegiance has changed `role` (knowledge follows this one)
+  dealtRole?: Role;
   specialRole?: SpecialRole;
   isLeader: boolean;
 }
 
+export interface Spectator {
+  id: string; // socket.id (changes on reconnect)
+  spectatorId: string; // permanent UUID for this spectator
+  nickname: string;
+}
+
+// Fields of a player's view that must never reach spectators (stripped after state:sync)
+const SPECTATOR_HIDDEN_FIELDS = ["myRole", "specialRole", "spies", "merlinCandidates", "myVote", "myMissionAction"];
+
+export type JoinErrorCode =
+  | "ROOM_FULL"
+  | "GAME_IN_PROGRESS"
+  | "NICKNAME_TAKEN"
+  | "WRONG_PASSWORD"
+  | "REFUSED"
+  | "SEAT_TAKEN"
+  | "KICKED";
+
+export interface JoinError {
+  code: JoinErrorCode;
+  message: string;
+}
+
+function toPublicPlayer(p: Player) {
+  return { id: p.id, playerId: p.playerId, nickname: p.nickname, isLeader: p.isLeader };
+}
+
+// Spectators get no playerIds: they are the players' rejoin credentials (see join_room)
+function toSpectatorPlayer(p: Player) {
+  return { id: p.id, nickname: p.nickname, isLeader: p.isLeader };
+}
+
+export interface MissionResult {
+  success: boolean;
+  failCount: number;
+  failsRequired: number; // fail cards that were needed to fail this mission
+}
+
+// One slot per mission (null = not played yet); missions can be played out of order with targeting
+export type MissionBoard = Array<MissionResult | null>;
+
+function toMissionBoard(results: Array<MissionResult | null> = []): MissionBoard {
+  return Array.from({ length: MISSION_COUNT }, (_, i) => (results[i] ? { ...results[i]! } : null));
+}
+
+function cloneExpansionOptions(options: Record<string, ExpansionOptions>): Record<string, ExpansionOptions> {
+  return Object.fromEntries(Object.entries(options).map(([id, values]) => [id, { ...values }]));
+}
+
+/**
+ * Plain, JSON-serializable copy of a Room used by the room stores.
+ * Maps are flattened to entry arrays; expansion state is keyed by expansion id.
+ */
+export interface RoomSnapshot {
+  id: string;
+  players: Player[];
+  hostId: string | null;
+  password: string | null;
+  spectatorDelaySeconds: number;
+  maxPlayers: number;
+  minPlayers: number;
+  expansions: string[];
+  expansionOptions?: Record<string, ExpansionOptions>;
+  kickedPlayers?: Array<{ playerId: string; nickname: string }>;
+  createdAt: number;
+  lastActivityAt: number;
+  loopStartAt: number | null;
+  phase: GamePhase;
+  currentLeaderIndex: number;
+  currentMissionIndex: number;
+  failedMissions: number;
+  succeededMissions: number;
+  missionHistory: MissionBoard;
+  rules: RoomRules;
+  winner?: Role | null;
+  selectedTeam: string[];
+  votes: Array<[string, boolean]>;
+  voteRejections: number;
+  missionActions: Array<[string, boolean]>;
+  events: GameEvent[];
+  seed: string;
+  rngState: number;
+  timerConfig: TurnTimerConfig;
+  phaseDeadline: PhaseDeadline | null;
+  expansionState: Record<string, any>;
+}
+
 export class Room {
   id: string;
   players: Player[] = [];
   maxPlayers: number = MAX_PLAYERS;
   minPlayers: number = MIN_PLAYERS;
   expansions: string[] = [];
+  // Options the host chose for each expansion, by expansion id (see getExpansionOptions)
+  expansionOptions: Record<string, ExpansionOptions> = {};
 
   // Timestamps for activity tracking
   createdAt: number = Date.now();
@@ -46,26 +181,249 @@ export class Room {
   currentMissionIndex: number = 0;
   failedMissions: number = 0;
   succeededMissions: number = 0;
-  missionHistory: Array<{ success: boolean; failCount: number }> = [];
-  assassinationTarget: string | null = null;
+  missionHistory: MissionBoard = toMissionBoard();
+  // Set when the game ends (see endGame); expansions may override it through the game:end hook
+  winner: Role | null = null;
+
+  // Turn deadlines (disabled by default); phaseDeadline is refreshed on every touch()
+  timerConfig: TurnTimerConfig = { ...DEFAULT_TURN_TIMER_CONFIG };
+  phaseDeadline: PhaseDeadline | null = null;
+
+  // Seeded RNG for every random decision in this room (shared with expansions via hook context)
+  rng: Rng;
+
+  // Append-only game log (see events/types.ts); replay it with replayRoom()
+  events: GameEvent[] = [];
 
   // Mission configuration based on player count (standard Resistance rules)
   // [Players] => [Mission1, Mission2, Mission3, Mission4, Mission5] (Team sizes)
   private missionConfig: Record<number, number[]> = MISSION_CONFIG;
+  private missionFailsRequired: Record<number, number[]> = MISSION_FAILS_REQUIRED;
+  // playerId of the player who controls the lobby (start, restart, rules, kicks)
+  hostId: string | null = null;
+  // Optional join password (never sent to clients; they only see whether the room is locked)
+  password: string | null = null;
+  // Players the host kicked: refused if they try to join again (by playerId or nickname)
+  kickedPlayers: Array<{ playerId: string; nickname: string }> = [];
+  // Per-room overrides of the tables above and of the rejection rules (see RoomRules.ts)
+  rules: RoomRules = cloneRoomRules(DEFAULT_ROOM_RULES);
   private hookManager: HookManager;
 
-  constructor(id: string, minPlayers?: number, expansions?: string[], hookManager?: HookManager) {
+  // Called after every state change (used by GameManager to persist the room)
+  onStateChange?: (room: Room) => void;
+
+  // Watchers of the room; they hold no seat and are not persisted (they re-join after a restart)
+  spectators: Spectator[] = [];
+  // Delay before public broadcasts reach spectators (for streamed games)
+  spectatorDelaySeconds: number = 0;
+
+  // Called after every public broadcast to the players (used to relay it to spectators)
+  onBroadcast?: (event: string, payload: unknown) => void;
+
+  constructor(
+    id: string,
+    minPlayers?: number,
+    expansions?: string[],
+    hookManager?: HookManager,
+    seed?: string | number,
+    expansionOptions?: Record<string, ExpansionOptions>
+  ) {
     this.id = id;
     this.hookManager = hookManager || new HookManager();
+    this.rng = new Rng(seed);
     if (minPlayers !== undefined) {
       this.minPlayers = minPlayers;
     }
     if (expansions) {
       this.expansions = expansions;
     }
+    if (expansionOptions) {
+      this.expansionOptions = cloneExpansionOptions(expansionOptions);
+    }
+
+    this.recordEvent("room:created", {
+      roomId: this.id,
+      minPlayers: this.minPlayers,
+      maxPlayers: this.maxPlayers,
+      expansions: [...this.expansions],
+      expansionOptions: cloneExpansionOptions(this.expansionOptions),
+      seed: this.rng.seed,
+    });
+  }
+
+  /**
+   * Append an event to the room's game log.
+   * Expansions use this to record their own actions as "expansion:action" events.
+   */
+  recordEvent<T extends GameEventType>(type: T, payload: GameEventPayloads[T]) {
+    const event = {
+      seq: this.events.length,
+      type,
+      timestamp: Date.now(),
+      rngState: this.rng.getState(),
+      payload,
+    } as GameEvent;
+    this.events.push(event);
+    return event;
+  }
+
+  /**
+   * Record activity on the room and notify any state change listener.
+   * Expansions that mutate room state directly should call this too.
+   */
+  touch() {
+    this.lastActivityAt = Date.now();
+    this.updatePhaseDeadline();
+    this.onStateChange?.(this);
+  }
+
+  // Start a new deadline when the phase (or mission) changes; keep the running one otherwise
+  private updatePhaseDeadline() {
+    const seconds = this.getExpansionPhaseTimeout()
+      ? this.timerConfig.expansionPhaseSeconds
+      : getPhaseTimeoutSeconds(this.timerConfig, this.phase);
+    if (!seconds) {
+      this.phaseDeadline = null;
+      return;
+    }
+
+    const current = this.phaseDeadline;
+    if (current && current.phase === this.phase && current.missionIndex === this.currentMissionIndex) {
+      return;
+    }
+
+    const now = Date.now();
+    this.phaseDeadline = {
+      phase: this.phase,
+      missionIndex: this.currentMissionIndex,
+      startedAt: now,
+      expiresAt: now + seconds * 1000,
+    };
+  }
+
+  /**
+   * Countdown for the current phase as sent to clients (null when the phase has no deadline)
+   */
+  getPhaseDeadline(): { phase: GamePhase; expiresAt: number; remainingMs: number } | null {
+    if (!this.phaseDeadline) return null;
+    return {
+      phase: this.phaseDeadline.phase,
+      expiresAt: this.phaseDeadline.expiresAt,
+      remainingMs: Math.max(this.phaseDeadline.expiresAt - Date.now(), 0),
+    };
+  }
+
+  /**
+   * Apply the default action for the current phase once its deadline expired:
+   * - TEAM_SELECTION: leadership passes to the next player
+   * - VOTE: every missing vote is cast as timerConfig.voteTimeoutAction
+   * - MISSION: every missing mission card is played as a success
+   * - Expansion phases: the default the expansion declares (see ExpansionPlugin.phaseTimeouts)
+   * Returns the phase and the playerIds acted for, or null if the phase has no default.
+   * Callers still tally votes / resolve the mission as they would after the last real action.
+   */
+  applyTimeoutDefault(): { phase: GamePhase; playerIds: string[] } | null {
+    const phase = this.phase;
+    let playerIds: string[];
+
+    if (phase === "TEAM_SELECTION") {
+      const leader = this.players[this.currentLeaderIndex];
+      playerIds = leader ? [leader.playerId] : [];
+      this.recordEvent("turn:timeout", { phase, playerIds });
+      this.nextTurn();
+    } else if (phase === "VOTE") {
+      const approve = this.timerConfig.voteTimeoutAction === "approve";
+      const missing = this.players.filter((p) => !this.votes.has(p.playerId));
+      playerIds = missing.map((p) => p.playerId);
+      this.recordEvent("turn:timeout", { phase, playerIds });
+      missing.forEach((p) => this.submitVote(p.id, approve));
+    } else if (phase === "MISSION") {
+      playerIds = this.selectedTeam.filter((pid) => !this.missionActions.has(pid));
+      this.recordEvent("turn:timeout", { phase, playerIds });
+      playerIds.forEach((pid) => {
+        const socketId = this.getSocketIdFromPlayerId(pid);
+        if (socketId) this.submitMissionAction(socketId, true);
+      });
+    } else {
+      const timeout = this.getExpansionPhaseTimeout(phase);
+      if (!timeout) return null;
+      playerIds = timeout.waitingOn(this);
+      this.recordEvent("turn:timeout", { phase, playerIds });
+      timeout.apply(this);
+    }
+
+    this.touch();
+    return { phase, playerIds };
+  }
+
+  /**
+   * Timeout default one of the room's expansions declares for a phase (the current one by default)
+   */
+  getExpansionPhaseTimeout(phase: GamePhase = this.phase): ExpansionPhaseTimeout | undefined {
+    return this.expansions.map((id) => getExpansion(id)?.phaseTimeouts?.[phase]).find(Boolean);
+  }
+
+  /**
+   * Decide whether a player may take a seat. Returns null when they may join.
+   * A player rejoining with a playerId that already has a seat is always admitted.
+   */
+  checkAdmission(nickname: string, password?: string, playerId?: string): JoinError | null {
+    if (playerId && this.getPlayerByPlayerId(playerId)) return null;
+
+    const passwordError = this.checkPassword(password);
+    if (passwordError) return passwordError;
+    if (this.isKicked(nickname, playerId)) {
+      return { code: "KICKED", message: "You were removed from this room by the host" };
+    }
+    if (this.phase !== "LOBBY") {
+      return { code: "GAME_IN_PROGRESS", message: "The game has already started" };
+    }
+    if (this.isFull()) {
+      return { code: "ROOM_FULL", message: `The room is full (${this.maxPlayers} players)` };
+    }
+    if (this.isNicknameTaken(nickname)) {
+      return { code: "NICKNAME_TAKEN", message: `The nickname "${nickname}" is already taken` };
+    }
+    // Expansions may refuse the player
+    const hookResult = this.hookManager.triggerSync('player:join', { room: this, rng: this.rng, nickname, playerId });
+    if (hookResult.cancel) {
+      return { code: "REFUSED", message: hookResult.reason || "You cannot join this room" };
+    }
+    return null;
+  }
+
+  /**
+   * Check the room password (players and spectators alike)
+   */
+  checkPassword(password?: string): JoinError | null {
+    if (this.password !== null && password !== this.password) {
+      return { code: "WRONG_PASSWORD", message: "Wrong room password" };
+    }
+    return null;
+  }
+
+  isFull(): boolean {
+    return this.players.length >= this.maxPlayers;
+  }
+
+  isKicked(nickname: string, playerId?: string): boolean {
+    const wanted = nickname.trim().toLowerCase();
+    return this.kickedPlayers.some(
+      (k) => k.playerId === playerId || k.nickname.trim().toLowerCase() === wanted
+    );
+  }
+
+  isNicknameTaken(nickname: string): boolean {
+    const wanted = nickname.trim().toLowerCase();
+    return this.players.some((p) => p.nickname.trim().toLowerCase() === wanted);
   }
 
   addPlayer(id: string, nickname: string, playerId?: string): Player {
+    // Callers check admission first; this only guards the seat limit
+    if (this.isFull()) {
+      throw new Error(`Room ${this.id} is full (${this.maxPlayers} players)`);
+    }
+
     const player: Player = {
       id,
       playerId: playerId || id, // Use provided playerId or fallback to socket.id
@@ -73,13 +431,84 @@ export class Room {
       isLeader: false,
     };
     this.players.push(player);
-    this.lastActivityAt = Date.now();
+    this.recordEvent("player:joined", { playerId: player.playerId, socketId: id, nickname });
+    // The first player to join (the creator) hosts the room
+    if (!this.hostId) {
+      this.setHost(player.playerId);
+    }
+    this.touch();
     return player;
   }
 
-  removePlayer(id: string) {
+  removePlayer(id: string, kicked: boolean = false) {
+    const player = this.getPlayer(id);
     this.players = this.players.filter((p) => p.id !== id);
-    this.lastActivityAt = Date.now();
+    if (player) {
+      if (kicked) this.kickedPlayers.push({ playerId: player.playerId, nickname: player.nickname });
+      this.recordEvent("player:left", kicked ? { playerId: player.playerId, kicked } : { playerId: player.playerId });
+      // Hosting passes on to the longest-standing remaining player
+      if (player.playerId === this.hostId) {
+        this.setHost(this.players[0]?.playerId ?? null);
+      }
+    }
+    this.touch();
+  }
+
+  /**
+   * Remove a player from the lobby on the host's request
+   */
+  kickPlayer(playerId: string): Player | null {
+    if (this.phase !== "LOBBY" || playerId === this.hostId) return null;
+    const player = this.getPlayerByPlayerId(playerId);
+    if (!player) return null;
+    this.removePlayer(player.id, true);
+    return player;
+  }
+
+  getHost(): Player | undefined {
+    return this.hostId ? this.getPlayerByPlayerId(this.hostId) : undefined;
+  }
+
+  isHost(socketId: string): boolean {
+    const player = this.getPlayer(socketId);
+    return !!player && player.playerId === this.hostId;
+  }
+
+  transferHost(playerId: string): boolean {
+    if (playerId === this.hostId || !this.getPlayerByPlayerId(playerId)) return false;
+    this.setHost(playerId);
+    this.touch();
+    return true;
+  }
+
+  private setHost(playerId: string | null) {
+    const previousHostId = this.hostId;
+    this.hostId = playerId;
+    this.recordEvent("host:changed", { hostId: playerId, previousHostId });
+  }
+
+  /**
+   * Add a spectator, or move a returning one (same spectatorId) to its new socket
+   */
+  addSpectator(id: string, nickname: string, spectatorId?: string): Spectator {
+    const existing = spectatorId ? this.spectators.find((s) => s.spectatorId === spectatorId) : undefined;
+    if (existing) {
+      existing.id = id;
+      existing.nickname = nickname;
+      return existing;
+    }
+
+    const spectator: Spectator = { id, spectatorId: spectatorId || id, nickname };
+    this.spectators.push(spectator);
+    return spectator;
+  }
+
+  removeSpectator(id: string) {
+    this.spectators = this.spectators.filter((s) => s.id !== id);
+  }
+
+  getSpectator(id: string) {
+    return this.spectators.find((s) => s.id === id);
   }
 
   getPlayer(id: string) {
@@ -90,11 +519,23 @@ export class Room {
     return this.players.find((p) => p.playerId === playerId);
   }
 
+  /**
+   * A seated player lost their connection. Returns whether their seat may be released
+   * once the reconnect delay runs out (a player:disconnect hook may keep it).
+   */
+  handleDisconnect(socketId: string): boolean {
+    const player = this.getPlayer(socketId);
+    if (!player) return false;
+    const hookResult = this.hookManager.triggerSync('player:disconnect', { room: this, rng: this.rng, player, playerId: player.playerId });
+    return !hookResult.cancel;
+  }
+
   reconnectPlayer(playerId: string, newSocketId: string): boolean {
     const player = this.getPlayerByPlayerId(playerId);
     if (player) {
       player.id = newSocketId;
-      this.lastActivityAt = Date.now();
+      this.recordEvent("player:reconnected", { playerId, socketId: newSocketId });
+      this.touch();
       return true;
     }
     return false;
@@ -104,22 +545,31 @@ export class Room {
     if (this.players.length < this.minPlayers) return false;
 
     // Trigger game:start hook before any game initialization
-    await this.hookManager.trigger('game:start', { room: this });
+    await this.hookManager.trigger('game:start', { room: this, rng: this.rng });
 
-    this.assignRoles();
+    await this.assignRoles();
     this.phase = "TEAM_SELECTION";
-    this.currentLeaderIndex = Math.floor(Math.random() * this.players.length);
+    this.currentLeaderIndex = this.rng.int(this.players.length);
     this.updateLeader();
-    this.lastActivityAt = Date.now();
+
+    this.recordEvent("game:started", {
+      leaderIndex: this.currentLeaderIndex,
+      roles: this.players.map((p) => ({
+        playerId: p.playerId,
+        role: p.role!,
+        specialRole: p.specialRole ?? null,
+      })),
+    });
+    this.touch();
 
     return true;
   }
 
   private async assignRoles() {
     const playerCount = this.players.length;
-    const spyCount = SPY_COUNT[playerCount] || Math.ceil(playerCount / 3); // Fallback for unsupported player counts
+    const spyCount = this.getSpyCount(playerCount);
 
-    const shuffled = [...this.players].sort(() => 0.5 - Math.random());
+    const shuffled = this.rng.shuffle(this.players);
 
     shuffled.forEach((player, index) => {
       player.role = index < spyCount ? "SPY" : "RESISTANCE";
@@ -127,30 +577,67 @@ export class Room {
     });
 
     // Trigger roles:assign hook to allow expansions to assign special roles
-    await this.hookManager.trigger('roles:assign', { room: this, players: this.players });
+    await this.hookManager.trigger('roles:assign', { room: this, players: this.players, rng: this.rng });
   }
 
   private updateLeader() {
     this.players.forEach((p) => (p.isLeader = false));
     this.players[this.currentLeaderIndex].isLeader = true;
-    this.lastActivityAt = Date.now();
+    this.touch();
   }
 
   nextTurn() {
     this.currentLeaderIndex =
       (this.currentLeaderIndex + 1) % this.players.length;
-    this.updateLeader();
     this.phase = "TEAM_SELECTION";
     this.selectedTeam = [];
     this.votes = new Map();
+    // A new leader always gets a fresh deadline
+    this.phaseDeadline = null;
+    this.updateLeader();
+
+    this.recordEvent("turn:advanced", {
+      leaderIndex: this.currentLeaderIndex,
+      leaderId: this.players[this.currentLeaderIndex].playerId,
+    });
   }
 
   getCurrentMissionSize(): number {
+    return this.getMissionSize(this.currentMissionIndex);
+  }
+
+  getMissionSize(missionIndex: number): number {
+    const sizes = this.rules.missionSizes[this.players.length] || this.missionConfig[this.players.length];
+    return sizes?.[missionIndex] || 0;
+  }
+
+  getSpyCount(playerCount: number = this.players.length): number {
     return (
-      this.missionConfig[this.players.length]?.[this.currentMissionIndex] || 0
+      this.rules.spyCounts[playerCount] ??
+      (SPY_COUNT[playerCount] || Math.ceil(playerCount / 3)) // Fallback for unsupported player counts
     );
   }
 
+  /**
+   * Replace the room's rules (already validated with validateRoomRules).
+   * Rules can only change in the LOBBY.
+   */
+  setRules(rules: RoomRules): boolean {
+    if (this.phase !== "LOBBY") return false;
+    this.rules = cloneRoomRules(rules);
+    this.recordEvent("rules:updated", { rules: cloneRoomRules(rules) });
+    this.touch();
+    return true;
+  }
+
+  /**
+   * Number of fail cards needed to fail a mission (defaults to the current one)
+   */
+  getRequiredFails(missionIndex: number = this.currentMissionIndex): number {
+    if (!this.rules.twoFailMissionRule) return 1;
+    return this.missionFailsRequired[this.players.length]?.[missionIndex] || 1;
+  }
+
   // INTERNAL STATE: Uses playerIds (UUIDs)
   selectedTeam: string[] = []; // List of playerIds
   votes: Map<string, boolean> = new Map(); // playerId -> boolean
@@ -186,8 +673,36 @@ export class Room {
     return revealed;
   }
 
-  selectTeam(socketIds: string[]): boolean {
-    const requiredSize = this.getCurrentMissionSize();
+  /**
+   * Missions that have not been played yet
+   */
+  getOpenMissions(): number[] {
+    return this.missionHistory.map((result, i) => (result ? -1 : i)).filter((i) => i >= 0);
+  }
+
+  getResolvedMissionCount(): number {
+    return MISSION_COUNT - this.getOpenMissions().length;
+  }
+
+  /**
+   * Missions the leader may attempt next: the current one, or with the targeting rule
+   * any open mission (the last one only after TARGETING_MISSIONS_BEFORE_LAST others)
+   */
+  getTargetableMissions(): number[] {
+    if (!this.rules.targeting) return [this.currentMissionIndex];
+    const last = MISSION_COUNT - 1;
+    return this.getOpenMissions().filter(
+      (i) => i !== last || this.getResolvedMissionCount() >= TARGETING_MISSIONS_BEFORE_LAST
+    );
+  }
+
+  /**
+   * Propose a team. With the targeting rule the leader also picks the mission
+   * (defaults to the current one); without it, missionIndex must be the current mission.
+   */
+  selectTeam(socketIds: string[], missionIndex: number = this.currentMissionIndex): boolean {
+    if (!this.getTargetableMissions().includes(missionIndex)) return false;
+    const requiredSize = this.getMissionSize(missionIndex);
     if (socketIds.length !== requiredSize) return false;
 
     // Validate all players exist
@@ -198,17 +713,34 @@ export class Room {
       playerIds.push(player.playerId);
     }
 
+    // Expansions may refuse the proposal
+    const hookResult = this.hookManager.triggerSync('team:select', { room: this, rng: this.rng, team: [...playerIds], missionIndex });
+    if (hookResult.cancel) return false;
+
+    this.currentMissionIndex = missionIndex;
     this.selectedTeam = playerIds;
     this.phase = "VOTE";
-    this.lastActivityAt = Date.now();
+    this.recordEvent("team:selected", {
+      leaderId: this.players[this.currentLeaderIndex]?.playerId ?? null,
+      missionIndex: this.currentMissionIndex,
+      team: [...playerIds],
+    });
+    this.touch();
     return true;
   }
 
-  submitVote(socketId: string, approve: boolean) {
+  submitVote(socketId: string, approve: boolean): boolean {
     const playerId = this.getPlayerIdFromSocket(socketId);
-    if (!playerId) return;
-    this.votes.set(playerId, approve);
-    this.lastActivityAt = Date.now();
+    if (!playerId) return false;
+    // Expansions may refuse the vote or change it
+    const hookResult = this.hookManager.triggerSync('vote:submit', { room: this, rng: this.rng, playerId, vote: approve });
+    if (hookResult.cancel) return false;
+    const vote = hookResult.vote ?? approve;
+
+    this.votes.set(playerId, vote);
+    this.recordEvent("vote:submitted", { playerId, approve: vote });
+    this.touch();
+    return true;
   }
 
   tallyVotes(): {
@@ -225,25 +757,32 @@ export class Room {
       else rejectCount++;
     });
 
-    const approved = approveCount > rejectCount;
+    // Expansions may overturn the outcome (e.g. a No Confidence plot card rejects an approved team)
+    const hookResult = this.hookManager.triggerSync('vote:tally', {
+      room: this,
+      rng: this.rng,
+      result: { approved: approveCount > rejectCount, approveCount, rejectCount },
+    });
+    const approved = hookResult.result.approved;
 
     let penaltyApplied = false;
 
     if (!approved) {
       this.voteRejections++;
 
-      if (this.voteRejections >= MAX_REJECTIONS) {
-        // After MAX_REJECTIONS rejected proposals, Spies win immediately
+      if (this.voteRejections >= this.rules.rejectionLimit) {
+        // After rejectionLimit rejected proposals, Spies win immediately
         this.failedMissions = MISSIONS_TO_FAIL; // Force spy win condition
         this.phase = "GAME_OVER";
         penaltyApplied = true;
         this.voteRejections = 0;
-      } else {
-        this.nextTurn();
       }
     } else {
       this.phase = "MISSION";
-      // this.voteRejections = 0; // Cumulative rejections rule: do not reset!
+      // Cumulative rejections rule: only reset when the room plays with per-mission rejections
+      if (!this.rules.cumulativeRejections) {
+        this.voteRejections = 0;
+      }
     }
 
     // Capture votes before clearing, but we don't return them here directly
@@ -251,9 +790,25 @@ export class Room {
     // index.ts should use room.getRevealedVotes().
     const resultDetails = { approved, approveCount, rejectCount, penaltyApplied };
 
+    this.recordEvent("votes:tallied", {
+      ...resultDetails,
+      votes: Object.fromEntries(this.votes),
+      voteRejections: this.voteRejections,
+      failedMissions: this.failedMissions,
+      phase: this.phase,
+    });
+
     this.votes.clear();
 
-    this.lastActivityAt = Date.now();
+    // A plain rejection passes leadership on (recorded after the tally)
+    if (!approved && !penaltyApplied) {
+      this.nextTurn();
+    }
+    if (penaltyApplied) {
+      this.endGame("SPY");
+    }
+
+    this.touch();
 
     return resultDetails;
   }
@@ -263,8 +818,18 @@ export class Room {
     if (!playerId) return false;
 
     if (!this.selectedTeam.includes(playerId)) return false;
-    this.missionActions.set(playerId, success);
-    this.lastActivityAt = Date.now();
+    // Cards are final once the mission waits on an expansion's decision
+    if (this.phase !== "MISSION" && this.missionActions.size === this.selectedTeam.length) return false;
+    // Expansions may change the card played (e.g. a Chief who must play their Chief card)
+    const hookResult = this.hookManager.triggerSync('mission:submit', { room: this, rng: this.rng, playerId, success });
+    if (hookResult.cancel) return false;
+    const played = hookResult.success ?? success;
+
+    this.missionActions.set(playerId, played);
+    this.recordEvent("mission:action", { playerId, success: played });
+    // ...or hold the resolution back for a decision once the last card is in (e.g. Excalibur)
+    this.phase = this.acceptPhase(hookResult.nextPhase) ?? this.phase;
+    this.touch();
     return true;
   }
 
@@ -278,7 +843,8 @@ export class Room {
       if (!action) failCount++;
     });
 
-    const success = failCount === 0;
+    const failsRequired = this.getRequiredFails();
+    const success = failCount < failsRequired;
 
     if (success) {
       this.succeededMissions++;
@@ -288,7 +854,7 @@ export class Room {
     }
 
     // Track mission result in history
-    this.missionHistory.push({ success, failCount });
+    this.missionHistory[this.currentMissionIndex] = { success, failCount, failsRequired };
 
     // Convert keys to Socket IDs for the return value
     const votesSocketIds = new Map<string, boolean>();
@@ -304,6 +870,7 @@ export class Room {
     this.missionActions.clear();
 
     // Determine next phase based on win conditions
+    const resolvedMissionIndex = this.currentMissionIndex;
     let nextPhase: GamePhase = "TEAM_SELECTION";
 
     // Check win conditions
@@ -314,61 +881,120 @@ export class Room {
       // Resistance wins (base game)
       nextPhase = "GAME_OVER";
     } else {
-      this.currentMissionIndex++;
+      // Without targeting this is the next mission; with it, the leader may still pick another one
+      this.currentMissionIndex = this.getOpenMissions()[0] ?? resolvedMissionIndex;
       nextPhase = "TEAM_SELECTION";
     }
 
     // Trigger mission:resolve hook to allow expansions to modify phase
     const hookResult = await this.hookManager.trigger('mission:resolve', {
       room: this,
+      rng: this.rng,
       result: { success, failCount },
       nextPhase
     });
 
-    // Apply phase from hook if modified
-    if (hookResult.nextPhase) {
-      this.phase = hookResult.nextPhase as GamePhase;
-    } else {
-      this.phase = nextPhase;
-    }
+    // Apply phase from hook if modified (only phases registered by the room's expansions)
+    this.phase = this.acceptPhase(hookResult.nextPhase) ?? nextPhase;
+
+    this.recordEvent("mission:resolved", {
+      missionIndex: resolvedMissionIndex,
+      success,
+      failCount,
+      failsRequired,
+      nextMissionIndex: this.currentMissionIndex,
+      phase: this.phase,
+    });
 
     // Handle next turn if continuing
     if (this.phase === "TEAM_SELECTION") {
       this.nextTurn();
+    } else if (this.phase === "GAME_OVER") {
+      this.endGame(this.failedMissions >= MISSIONS_TO_FAIL ? "SPY" : "RESISTANCE");
     }
 
+    this.touch();
+
     return { success, failCount, votes: votesSocketIds };
   }
 
-  handleAssassination(targetId: string): { success: boolean; merlinId: string | null } {
-    this.assassinationTarget = targetId;
+  /**
+   * End the game with the given winner. Expansions may change the winner through the
+   * game:end hook (e.g. an assassination or a hunt decided after the missions).
+   * Returns the final winner.
+   */
+  endGame(winner: Role): Role {
+    this.phase = "GAME_OVER";
+    const hookResult = this.hookManager.triggerSync('game:end', { room: this, rng: this.rng, winner });
+    this.winner = hookResult.winner ?? winner;
+    this.recordEvent("game:ended", { winner: this.winner });
+    this.touch();
+    return this.winner;
+  }
+
+  /**
+   * Phases this room accepts: the core phases plus those declared by its expansions
+   */
+  getPhases(): GamePhase[] {
+    return [...CORE_PHASES, ...this.expansions.flatMap((id) => getExpansion(id)?.phases ?? [])];
+  }
 
-    // Find Merlin
-    const merlin = this.players.find(p => p.specialRole === "MERLIN");
-    const merlinId = merlin?.id || null;
+  /**
+   * Options of one of the room's expansions: the host's choices over the expansion's defaults
+   */
+  getExpansionOptions(expansionId: string): ExpansionOptions {
+    const expansion = getExpansion(expansionId);
+    return { ...(expansion ? defaultExpansionOptions(expansion) : {}), ...this.expansionOptions[expansionId] };
+  }
 
-    // Check if Assassin guessed correctly
-    const success = targetId === merlinId;
+  /**
+   * Swap the room's expansions (already validated with validateExpansionSelection).
+   * The old ones are uninstalled, then `install` puts the new ones on the room's hook manager
+   * (see GameManager.setExpansions). Expansions can only change in the LOBBY.
+   */
+  replaceExpansions(
+    expansions: string[],
+    expansionOptions: Record<string, ExpansionOptions>,
+    install: (hookManager: HookManager) => void
+  ): boolean {
+    if (this.phase !== "LOBBY") return false;
+    this.uninstallExpansions();
+    this.expansions = [...expansions];
+    this.expansionOptions = cloneExpansionOptions(expansionOptions);
+    install(this.hookManager);
+    this.recordEvent("expansions:updated", {
+      expansions: [...this.expansions],
+      expansionOptions: cloneExpansionOptions(this.expansionOptions),
+    });
+    this.touch();
+    return true;
+  }
 
-    this.phase = "GAME_OVER";
+  /**
+   * Remove every hook the room's expansions registered (the room is going away)
+   */
+  uninstallExpansions() {
+    this.expansions.forEach((id) => getExpansion(id)?.uninstall(this.hookManager));
+  }
 
-    return { success, merlinId };
+  isPhase(phase: string): phase is GamePhase {
+    return this.getPhases().includes(phase as GamePhase);
+  }
+
+  // A phase requested by a hook, or null when none was requested or it is not registered
+  private acceptPhase(phase: string | undefined): GamePhase | null {
+    if (!phase) return null;
+    if (this.isPhase(phase)) return phase;
+    console.warn(`[Room ${this.id}] Ignoring unregistered phase from a hook: ${phase}`);
+    return null;
   }
 
   async getGameState(requestingPlayerId: string) {
     const player = this.getPlayerByPlayerId(requestingPlayerId);
     if (!player) return null;
 
-    // Build spy list for role info
-    const spiesList = this.players
-      .filter((p) => p.role === "SPY")
-      .map((p) => ({ id: p.id, nickname: p.nickname }));
-
-    // Spy visibility is now controlled by expansions via state:sync hook
-    let spiesVisible: any[] | undefined = undefined;
-    if (player.role === "SPY") {
-      spiesVisible = spiesList;
-    }
+    // Secret information about other players (spies, Merlin candidates) comes from the knowledge model
+    const knowledge = this.getKnowledge(player);
 
     // Check if player has voted in current phase (using UUID)
     const hasVoted = this.votes.has(requestingPlayerId);
@@ -388,9 +1014,6 @@ export class Room {
       .map(pid => this.getSocketIdFromPlayerId(pid))
       .filter((sid): sid is string => !!sid);
 
-    // Find assassin ID if in assassination phase
-    const assassin = this.players.find((p) => p.specialRole === "ASSASSIN");
-
     const state = {
       roomId: this.id,
       player: {
@@ -409,9 +1032,18 @@ export class Room {
         nickname: p.nickname,
         isLeader: p.isLeader,
       })),
-      currentLeader: this.players[this.currentLeaderIndex],
+      currentLeader: this.getCurrentLeader(),
+      hostId: this.hostId,
+      isHost: player.playerId === this.hostId,
+      maxPlayers: this.maxPlayers,
+      locked: this.password !== null,
       missionIndex: this.currentMissionIndex,
       missionSize: this.getCurrentMissionSize(),
+      missionFailsRequired: this.getRequiredFails(),
+      missionFailsRequiredByMission: [0, 1, 2, 3, 4].map((i) => this.getRequiredFails(i)),
+      missionSizeByMission: [0, 1, 2, 3, 4].map((i) => this.getMissionSize(i)),
+      targetableMissions: this.getTargetableMissions(),
+      rules: this.rules,
       selectedTeam: this.getSelectedTeamSocketIds(), // Map UUIDs to Socket IDs
       voteRejections: this.voteRejections,
       succeededMissions: this.succeededMissions,
@@ -421,20 +1053,22 @@ export class Room {
       // Player-specific info
       myRole: player.role,
       specialRole: player.specialRole,
-      spies: spiesVisible,
+      spies: knowledge.spies,
+      merlinCandidates: knowledge.merlinCandidates,
       hasVoted,
       myVote,
       votedPlayers,
       hasSubmittedMissionAction,
       myMissionAction,
       missionActionsSubmitted,
-      assassinId: assassin?.id || null,
-      assassinationTarget: this.assassinationTarget,
+      deadline: this.getPhaseDeadline(),
+      turnTimers: this.timerConfig,
     };
 
     // Trigger state:sync hook to allow expansions to add custom state
     const hookResult = await this.hookManager.trigger('state:sync', {
       room: this,
+      rng: this.rng,
       player,
       state
     });
@@ -442,45 +1076,248 @@ export class Room {
     return hookResult.state || state;
   }
 
+  /**
+   * Who-sees-whom model of this room: the base rules plus those declared by its expansions
+   */
+  getKnowledgeModel(): KnowledgeModel {
+    return new KnowledgeModel(this.expansions.flatMap((id) => getExpansion(id)?.visibilityRules ?? []));
+  }
+
+  /**
+   * Everything a player secretly knows about the others (see knowledge/KnowledgeModel.ts)
+   */
+  getKnowledge(player: Player): PlayerKnowledge {
+    return this.getKnowledgeModel().getKnowledge(this, player);
+  }
+
+  /**
+   * Player fields everyone may see (never the role)
+   */
+  getPublicPlayers() {
+    return this.players.map(toPublicPlayer);
+  }
+
+  /**
+   * Spectator fields everyone may see (never the spectatorId they rejoin with)
+   */
+  getPublicSpectators() {
+    return this.spectators.map((s) => ({ id: s.id, nickname: s.nickname }));
+  }
+
+  /**
+   * Everyone's role for the game_over reveal, as it is at the end of the game
+   * (after any allegiance switch, so players are shown with the team they won or lost with)
+   */
+  getRevealedPlayers() {
+    return this.players.map((p) => ({
+      id: p.id,
+      nickname: p.nickname,
+      role: p.role,
+      specialRole: p.specialRole || null,
+    }));
+  }
+
+  /**
+   * Move a player to the other team mid-game (e.g. Lancelot's loyalty cards).
+   * Winners are decided by team, so the player now wins or loses with their new team.
+   * What everyone knows stays as dealt (see dealtRole): nobody learns or forgets a spy mid-game.
+   * Returns the new role, or null when the game is not in progress.
+   */
+  switchAllegiance(playerId: string): Role | null {
+    const player = this.getPlayerByPlayerId(playerId);
+    if (!player?.role || this.phase === "LOBBY" || this.phase === "GAME_OVER") return null;
+
+    player.dealtRole = player.dealtRole ?? player.role;
+    player.role = player.role === "SPY" ? "RESISTANCE" : "SPY";
+    this.recordEvent("player:allegiance", { playerId, role: player.role });
+    this.touch();
+    return player.role;
+  }
+
+  getCurrentLeader() {
+    const leader = this.players[this.currentLeaderIndex];
+    return leader ? toPublicPlayer(leader) : null;
+  }
+
+  /**
+   * Public view of the game for spectators: no roles, spies, votes or mission cards
+   */
+  async getSpectatorState() {
+    const state: Record<string, any> = {
+      roomId: this.id,
+      spectator: true,
+      minPlayers: this.minPlayers,
+      expansions: this.expansions,
+      gameStarted: this.phase !== "LOBBY",
+      phase: this.phase,
+      players: this.players.map(toSpectatorPlayer),
+      spectators: this.getPublicSpectators(),
+      currentLeader: this.players[this.currentLeaderIndex] ? toSpectatorPlayer(this.players[this.currentLeaderIndex]) : null,
+      missionIndex: this.currentMissionIndex,
+      missionSize: this.getCurrentMissionSize(),
+      missionFailsRequired: this.getRequiredFails(),
+      missionFailsRequiredByMission: [0, 1, 2, 3, 4].map((i) => this.getRequiredFails(i)),
+      missionSizeByMission: [0, 1, 2, 3, 4].map((i) => this.getMissionSize(i)),
+      targetableMissions: this.getTargetableMissions(),
+      rules: this.rules,
+      selectedTeam: this.getSelectedTeamSocketIds(),
+      voteRejections: this.voteRejections,
+      succeededMissions: this.succeededMissions,
+      failedMissions: this.failedMissions,
+      missionHistory: this.missionHistory,
+      gameWinner: this.getWinner(),
+      // Who has acted, never what they chose
+      votedPlayers: Array.from(this.votes.keys())
+        .map((pid) => this.getSocketIdFromPlayerId(pid))
+        .filter((sid): sid is string => !!sid),
+      missionActionsSubmitted: Array.from(this.missionActions.keys())
+        .map((pid) => this.getSocketIdFromPlayerId(pid))
+        .filter((sid): sid is string => !!sid),
+      deadline: this.getPhaseDeadline(),
+      turnTimers: this.timerConfig,
+      spectatorDelaySeconds: this.spectatorDelaySeconds,
+    };
+
+    // Expansions may add public state; a spectator sync has no player
+    const hookResult = await this.hookManager.trigger('state:sync', {
+      room: this,
+      rng: this.rng,
+      player: null,
+      spectator: true,
+      state
+    });
+
+    const result = hookResult.state || state;
+    SPECTATOR_HIDDEN_FIELDS.forEach((field) => delete result[field]);
+    return result;
+  }
+
   async resetGame() {
     // Reset counters and history
     this.phase = "TEAM_SELECTION"; // Will be overridden by startGame/assignRoles logic usually, but here we reset
     this.currentMissionIndex = 0;
     this.failedMissions = 0;
     this.succeededMissions = 0;
-    this.missionHistory = [];
+    this.missionHistory = toMissionBoard();
     this.voteRejections = 0;
     this.selectedTeam = [];
     this.votes.clear();
     this.missionActions.clear();
-    this.assassinationTarget = null;
+    this.winner = null;
 
     // Reset player states but keep players
     this.players.forEach(p => {
       p.isLeader = false;
       p.role = undefined;
+      p.dealtRole = undefined;
       p.specialRole = undefined;
     });
 
+    // Fresh seed: the last game's seed and RNG state are public once it is over
+    this.rng = new Rng();
+    this.recordEvent("game:reset", { seed: this.rng.seed });
+
     // Notify expansions to reset
-    await this.hookManager.trigger('game:reset', { room: this });
+    await this.hookManager.trigger('game:reset', { room: this, rng: this.rng });
 
     // Start game again (assign roles, pick leader, etc)
     await this.startGame();
   }
 
+  /**
+   * Build a serializable snapshot of the base game state.
+   * Expansion state is filled in by GameManager, which knows the installed plugins.
+   */
+  toSnapshot(): RoomSnapshot {
+    return {
+      id: this.id,
+      players: this.players.map((p) => ({ ...p })),
+      hostId: this.hostId,
+      password: this.password,
+      spectatorDelaySeconds: this.spectatorDelaySeconds,
+      maxPlayers: this.maxPlayers,
+      minPlayers: this.minPlayers,
+      expansions: [...this.expansions],
+      expansionOptions: cloneExpansionOptions(this.expansionOptions),
+      kickedPlayers: this.kickedPlayers.map((k) => ({ ...k })),
+      createdAt: this.createdAt,
+      lastActivityAt: this.lastActivityAt,
+      loopStartAt: this.loopStartAt,
+      phase: this.phase,
+      currentLeaderIndex: this.currentLeaderIndex,
+      currentMissionIndex: this.currentMissionIndex,
+      failedMissions: this.failedMissions,
+      succeededMissions: this.succeededMissions,
+      missionHistory: toMissionBoard(this.missionHistory),
+      rules: cloneRoomRules(this.rules),
+      winner: this.winner,
+      selectedTeam: [...this.selectedTeam],
+      votes: Array.from(this.votes.entries()),
+      voteRejections: this.voteRejections,
+      missionActions: Array.from(this.missionActions.entries()),
+      events: this.events.map((e) => ({ ...e })),
+      seed: this.rng.seed,
+      rngState: this.rng.getState(),
+      timerConfig: { ...this.timerConfig },
+      phaseDeadline: this.phaseDeadline ? { ...this.phaseDeadline } : null,
+      expansionState: {},
+    };
+  }
+
+  /**
+   * Rebuild a room from a snapshot. The hook manager must already have
+   * the room's expansions installed.
+   */
+  static fromSnapshot(snapshot: RoomSnapshot, hookManager?: HookManager): Room {
+    const room = new Room(
+      snapshot.id,
+      snapshot.minPlayers,
+      [...snapshot.expansions],
+      hookManager,
+      snapshot.seed,
+      snapshot.expansionOptions
+    );
+    if (typeof snapshot.rngState === "number") {
+      room.rng.setState(snapshot.rngState);
+    }
+    room.players = snapshot.players.map((p) => ({ ...p }));
+    room.hostId = snapshot.hostId ?? snapshot.players[0]?.playerId ?? null;
+    room.password = snapshot.password ?? null;
+    room.kickedPlayers = (snapshot.kickedPlayers ?? []).map((k) => ({ ...k }));
+    room.spectatorDelaySeconds = snapshot.spectatorDelaySeconds ?? 0;
+    room.maxPlayers = snapshot.maxPlayers;
+    room.createdAt = snapshot.createdAt;
+    room.lastActivityAt = snapshot.lastActivityAt;
+    room.loopStartAt = snapshot.loopStartAt;
+    room.phase = snapshot.phase;
+    room.currentLeaderIndex = snapshot.currentLeaderIndex;
+    room.currentMissionIndex = snapshot.currentMissionIndex;
+    room.failedMissions = snapshot.failedMissions;
+    room.succeededMissions = snapshot.succeededMissions;
+    // Older snapshots hold an append-only list, which lines up with the board (missions were played in order)
+    room.missionHistory = toMissionBoard(snapshot.missionHistory);
+    room.rules = cloneRoomRules({ ...DEFAULT_ROOM_RULES, ...snapshot.rules });
+    room.winner = snapshot.winner ?? null;
+    room.selectedTeam = [...snapshot.selectedTeam];
+    room.votes = new Map(snapshot.votes);
+    room.voteRejections = snapshot.voteRejections;
+    room.missionActions = new Map(snapshot.missionActions);
+    room.events = snapshot.events ? snapshot.events.map((e) => ({ ...e })) : room.events;
+    room.timerConfig = { ...DEFAULT_TURN_TIMER_CONFIG, ...snapshot.timerConfig };
+    room.phaseDeadline = snapshot.phaseDeadline ? { ...snapshot.phaseDeadline } : null;
+    return room;
+  }
+
+  /**
+   * The winning team. Players win with the team of their current role (see switchAllegiance).
+   */
   getWinner(): "RESISTANCE" | "SPY" | null {
     if (this.phase !== "GAME_OVER") return null;
 
-    // If assassination happened and was successful, spies win
-    if (this.assassinationTarget) {
-      const merlin = this.players.find(p => p.specialRole === "MERLIN");
-      if (this.assassinationTarget === merlin?.id) {
-        return "SPY";
-      }
-    }
+    // Decided by endGame (and the game:end hook)
+    if (this.winner) return this.winner;
 
-    // Normal win conditions
+    // Normal win conditions (games ended without endGame, e.g. older snapshots)
     if (this.succeededMissions >= MISSIONS_TO_SUCCEED) return "RESISTANCE";
     if (this.failedMissions >= MISSIONS_TO_FAIL) return "SPY";
 
@@ -0,0 +1,136 @@
+import { MAX_PLAYERS, MAX_REJECTIONS, MIN_PLAYERS, MISSION_FAILS_REQUIRED } from "./constants";
+
+/**
+ * Per-room rule configuration (chosen on create_room, editable by the host in the LOBBY).
+ * Spy counts and mission sizes only override the entries of the default tables
+ * (SPY_COUNT / MISSION_CONFIG) for the player counts they list.
+ */
+export interface RoomRules {
+  spyCounts: Record<number, number>;        // [Players] => spies
+  missionSizes: Record<number, number[]>;   // [Players] => [Mission1, ..., Mission5]
+  rejectionLimit: number;                   // rejected proposals before the spies win
+  cumulativeRejections: boolean;            // false: the count resets when a team is approved
+  twoFailMissionRule: boolean;              // mission 4 needs two fail cards with 7+ players
+  targeting: boolean;                       // the leader picks which mission to attempt (Avalon variant)
+}
+
+export const DEFAULT_ROOM_RULES: RoomRules = {
+  spyCounts: {},
+  missionSizes: {},
+  rejectionLimit: MAX_REJECTIONS,
+  cumulativeRejections: true,
+  twoFailMissionRule: true,
+  targeting: false,
+};
+
+export const MISSION_COUNT = 5;
+export const MAX_REJECTION_LIMIT = 20;
+// Targeting: mission 5 can only be attempted once this many other missions were played
+export const TARGETING_MISSIONS_BEFORE_LAST = 2;
+
+export function cloneRoomRules(rules: RoomRules): RoomRules {
+  return {
+    ...rules,
+    spyCounts: { ...rules.spyCounts },
+    missionSizes: Object.fromEntries(
+      Object.entries(rules.missionSizes).map(([count, sizes]) => [count, [...sizes]])
+    ),
+  };
+}
+
+/**
+ * Validate a (partial) rules object sent by a client.
+ * Missing fields are taken from `base` (the defaults, or the room's current rules when editing).
+ */
+export function validateRoomRules(
+  input: unknown,
+  base: RoomRules = DEFAULT_ROOM_RULES
+): { rules: RoomRules; errors: string[] } {
+  const rules = cloneRoomRules(base);
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) return { rules, errors };
+  if (typeof input !== "object") {
+    return { rules, errors: ["rules must be an object"] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (raw.spyCounts !== undefined) {
+    forEachPlayerCount(raw.spyCounts, "spyCounts", errors, (count, value) => {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value >= Math.max(count, 1)) {
+        errors.push(`spyCounts[${count}] must be an integer between 0 and ${count - 1}`);
+        return;
+      }
+      rules.spyCounts[count] = value;
+    });
+  }
+
+  if (raw.missionSizes !== undefined) {
+    forEachPlayerCount(raw.missionSizes, "missionSizes", errors, (count, value) => {
+      if (
+        !Array.isArray(value) ||
+        value.length !== MISSION_COUNT ||
+        value.some((size) => typeof size !== "number" || !Number.isInteger(size) || size < 1 || size > count)
+      ) {
+        errors.push(`missionSizes[${count}] must be ${MISSION_COUNT} integers between 1 and ${count}`);
+        return;
+      }
+      rules.missionSizes[count] = [...value];
+    });
+  }
+
+  if (raw.rejectionLimit !== undefined) {
+    const value = raw.rejectionLimit;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_REJECTION_LIMIT) {
+      errors.push(`rejectionLimit must be an integer between 1 and ${MAX_REJECTION_LIMIT}`);
+    } else {
+      rules.rejectionLimit = value;
+    }
+  }
+
+  (["cumulativeRejections", "twoFailMissionRule", "targeting"] as const).forEach((key) => {
+    if (raw[key] === undefined) return;
+    if (typeof raw[key] !== "boolean") {
+      errors.push(`${key} must be a boolean`);
+      return;
+    }
+    rules[key] = raw[key] as boolean;
+  });
+
+  // A mission smaller than its fail requirement could never fail
+  if (rules.twoFailMissionRule) {
+    Object.entries(rules.missionSizes).forEach(([count, sizes]) => {
+      sizes.forEach((size, i) => {
+        const failsRequired = MISSION_FAILS_REQUIRED[Number(count)]?.[i] || 1;
+        if (size < failsRequired) {
+          errors.push(`missionSizes[${count}] mission ${i + 1} needs at least ${failsRequired} players (twoFailMissionRule)`);
+        }
+      });
+    });
+  }
+
+  return { rules, errors };
+}
+
+// Walk a { [playerCount]: value } map, reporting keys that are not a valid player count
+function forEachPlayerCount(
+  input: unknown,
+  field: string,
+  errors: string[],
+  visit: (count: number, value: unknown) => void
+) {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    errors.push(`${field} must be an object keyed by player count`);
+    return;
+  }
+
+  Object.entries(input).forEach(([key, value]) => {
+    const count = Number(key);
+    if (!Number.isInteger(count) || count < MIN_PLAYERS || count > MAX_PLAYERS) {
+      errors.push(`${field} has an invalid player count: ${key}`);
+      return;
+    }
+    visit(count, value);
+  });
+}
@@ -0,0 +1,121 @@
+import type { Room } from "./Room";
+
+export const MAX_SPECTATOR_DELAY_SECONDS = 600;
+
+// Keys removed from relayed payloads until the game is over (player lists carry roles)
+const SECRET_KEYS = new Set(["role", "specialRole", "spies"]);
+
+// Keys that may carry permanent playerIds, which let anyone take the seat over (see join_room).
+// They are only relayed when they hold socket ids (e.g. vote_submitted.playerId).
+const PLAYER_ID_KEYS = new Set(["playerId", "hostId", "previousHostId", "selectedTeamPlayerIds"]);
+
+/**
+ * Socket.io room that a game room's spectators join
+ */
+export function spectatorChannel(roomId: string): string {
+  return `${roomId}:spectators`;
+}
+
+/**
+ * Validate the spectator delay sent by a client (0 = live, the default)
+ */
+export function validateSpectatorDelay(input: unknown): { delaySeconds: number; errors: string[] } {
+  if (input === undefined || input === null) return { delaySeconds: 0, errors: [] };
+  if (
+    typeof input !== "number" ||
+    !Number.isInteger(input) ||
+    input < 0 ||
+    input > MAX_SPECTATOR_DELAY_SECONDS
+  ) {
+    return {
+      delaySeconds: 0,
+      errors: [`spectatorDelaySeconds must be an integer between 0 and ${MAX_SPECTATOR_DELAY_SECONDS}`],
+    };
+  }
+  return { delaySeconds: input, errors: [] };
+}
+
+/**
+ * SpectatorFeed - relays a room's public broadcasts to its spectators
+ *
+ * Spectators sit in their own socket.io room (see spectatorChannel), so nothing
+ * sent to the players reaches them directly. Every public broadcast is published
+ * here and re-sent to the spectators, after the room's spectatorDelaySeconds
+ * when it has one (for streamed games).
+ */
+export class SpectatorFeed {
+  private pending: Map<string, Set<NodeJS.Timeout>> = new Map();
+
+  constructor(private emit: (channel: string, event: string, payload: unknown) => void) { }
+
+  /**
+   * Send an event to the room's spectators (or to one spectator socket), honouring the delay
+   */
+  publish(room: Room, event: string, payload: unknown, channel: string = spectatorChannel(room.id)) {
+    if (room.spectators.length === 0) return;
+
+    // Copy the payload now: it often references live room state that changes before it is sent
+    const socketIds = new Set(room.players.map((p) => p.id));
+    const visible = stripPlayerIds(copy(payload), socketIds);
+    const frozen = room.phase === "GAME_OVER" ? visible : stripSecrets(visible);
+
+    const delayMs = room.spectatorDelaySeconds * 1000;
+    if (delayMs <= 0) {
+      this.emit(channel, event, frozen);
+      return;
+    }
+
+    const handles = this.pending.get(room.id) || new Set<NodeJS.Timeout>();
+    const handle = setTimeout(() => {
+      handles.delete(handle);
+      if (handles.size === 0) this.pending.delete(room.id);
+      this.emit(channel, event, frozen);
+    }, delayMs);
+
+    handles.add(handle);
+    this.pending.set(room.id, handles);
+  }
+
+  clear(roomId: string) {
+    this.pending.get(roomId)?.forEach((handle) => clearTimeout(handle));
+    this.pending.delete(roomId);
+  }
+
+  clearAll() {
+    this.pending.forEach((handles) => handles.forEach((handle) => clearTimeout(handle)));
+    this.pending.clear();
+  }
+
+  pendingCount(roomId: string): number {
+    return this.pending.get(roomId)?.size ?? 0;
+  }
+}
+
+function copy(payload: unknown): unknown {
+  return payload === undefined ? undefined : JSON.parse(JSON.stringify(payload));
+}
+
+function stripPlayerIds(value: any, socketIds: Set<string>): any {
+  const isSocketId = (item: unknown) => typeof item === "string" && socketIds.has(item);
+  if (Array.isArray(value)) return value.map((item) => stripPlayerIds(item, socketIds));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, item]) => !PLAYER_ID_KEYS.has(key) || (Array.isArray(item) ? item.every(isSocketId) : isSocketId(item)))
+        .map(([key, item]) => [key, stripPlayerIds(item, socketIds)])
+    );
+  }
+  return value;
+}
+
+function stripSecrets(value: any): any {
+  if (Array.isArray(value)) return value.map(stripSecrets);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !SECRET_KEYS.has(key))
+        .map(([key, item]) => [key, stripSecrets(item)])
+    );
+  }
+  return value;
+}
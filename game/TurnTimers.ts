@@ -0,0 +1,143 @@
+import type { Room, GamePhase } from "./Room";
+
+/**
+ * Per-room turn deadlines.
+ * A null duration disables the deadline for that phase (the default).
+ */
+export interface TurnTimerConfig {
+  teamSelectionSeconds: number | null; // leader must call select_team (timeout: leadership passes on)
+  voteSeconds: number | null;          // everyone must vote (timeout: missing votes are filled in)
+  missionSeconds: number | null;       // team must play its cards (timeout: missing cards are successes)
+  expansionPhaseSeconds: number | null; // one player acts in an expansion phase (timeout: see ExpansionPlugin.phaseTimeouts)
+  voteTimeoutAction: "approve" | "reject";
+}
+
+export interface PhaseDeadline {
+  phase: GamePhase;
+  missionIndex: number;
+  startedAt: number;
+  expiresAt: number;
+}
+
+export const DEFAULT_TURN_TIMER_CONFIG: TurnTimerConfig = {
+  teamSelectionSeconds: null,
+  voteSeconds: null,
+  missionSeconds: null,
+  expansionPhaseSeconds: null,
+  voteTimeoutAction: "approve",
+};
+
+export const MIN_TURN_TIMER_SECONDS = 5;
+export const MAX_TURN_TIMER_SECONDS = 3600;
+
+/**
+ * Deadline duration (in seconds) configured for a core phase, or null if it has none.
+ * Expansion phases use expansionPhaseSeconds when they declare a timeout default (see Room).
+ */
+export function getPhaseTimeoutSeconds(config: TurnTimerConfig, phase: GamePhase): number | null {
+  switch (phase) {
+    case "TEAM_SELECTION":
+      return config.teamSelectionSeconds;
+    case "VOTE":
+      return config.voteSeconds;
+    case "MISSION":
+      return config.missionSeconds;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a (partial) timer configuration sent by a client.
+ * Missing fields fall back to the defaults.
+ */
+export function validateTurnTimerConfig(input: unknown): { config: TurnTimerConfig; errors: string[] } {
+  const config: TurnTimerConfig = { ...DEFAULT_TURN_TIMER_CONFIG };
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) return { config, errors };
+  if (typeof input !== "object") {
+    return { config, errors: ["turnTimers must be an object"] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  (["teamSelectionSeconds", "voteSeconds", "missionSeconds", "expansionPhaseSeconds"] as const).forEach((key) => {
+    const value = raw[key];
+    if (value === undefined || value === null) return;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < MIN_TURN_TIMER_SECONDS ||
+      value > MAX_TURN_TIMER_SECONDS
+    ) {
+      errors.push(`${key} must be an integer between ${MIN_TURN_TIMER_SECONDS} and ${MAX_TURN_TIMER_SECONDS}`);
+      return;
+    }
+    config[key] = value;
+  });
+
+  if (raw.voteTimeoutAction !== undefined) {
+    if (raw.voteTimeoutAction === "approve" || raw.voteTimeoutAction === "reject") {
+      config.voteTimeoutAction = raw.voteTimeoutAction;
+    } else {
+      errors.push('voteTimeoutAction must be "approve" or "reject"');
+    }
+  }
+
+  return { config, errors };
+}
+
+/**
+ * TurnTimers - schedules the setTimeout behind each room's current phase deadline
+ *
+ * The deadline itself lives on the Room (so it is persisted and sent to clients);
+ * this class only arms, re-arms and clears the timers. Call sync() after every
+ * room state change: a new deadline object means the phase (or turn) changed.
+ */
+export class TurnTimers {
+  private timers: Map<string, { deadline: PhaseDeadline; handle: NodeJS.Timeout }> = new Map();
+
+  constructor(
+    private onExpire: (room: Room) => void,
+    private onArmed?: (room: Room) => void
+  ) { }
+
+  sync(room: Room) {
+    const deadline = room.phaseDeadline;
+    const current = this.timers.get(room.id);
+
+    if (!deadline) {
+      this.clear(room.id);
+      return;
+    }
+    if (current && current.deadline === deadline) return;
+
+    this.clear(room.id);
+    const handle = setTimeout(() => {
+      this.timers.delete(room.id);
+      // Ignore stale timers: the room moved on since this one was armed
+      if (room.phaseDeadline !== deadline) return;
+      this.onExpire(room);
+    }, Math.max(deadline.expiresAt - Date.now(), 0));
+
+    this.timers.set(room.id, { deadline, handle });
+    this.onArmed?.(room);
+  }
+
+  clear(roomId: string) {
+    const current = this.timers.get(roomId);
+    if (current) {
+      clearTimeout(current.handle);
+      this.timers.delete(roomId);
+    }
+  }
+
+  clearAll() {
+    this.timers.forEach(({ handle }) => clearTimeout(handle));
+    this.timers.clear();
+  }
+
+  isArmed(roomId: string): boolean {
+    return this.timers.has(roomId);
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+import { getPublicEvents } from '../events/publicLog';
+import { ExcaliburExpansion } from '../expansions/excalibur';
+
+async function startGame() {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, ['excalibur'], undefined, 'excalibur');
+    for (let i = 0; i < 5; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+// Registers the expansion's handlers on a fake socket for `socketId`
+function connect(room: Room, socketId: string) {
+    const handlers: Record<string, Function> = {};
+    const socket = { id: socketId, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+    const broadcasts: Array<[string, any]> = [];
+    const io = { to: () => ({ emit: (event: string, payload: any) => broadcasts.push([event, payload]) }) };
+    ExcaliburExpansion.registerSocketHandlers!(socket, room, io);
+    return { socket, handlers, broadcasts };
+}
+
+// Proposes a team (leader first, then the next players) and gives Excalibur to its second member
+function proposeWithExcalibur(room: Room) {
+    const leader = room.players.find(p => p.isLeader)!;
+    const others = room.players.filter(p => p !== leader);
+    const team = [leader, ...others].slice(0, room.getCurrentMissionSize());
+    room.selectTeam(team.map(p => p.id));
+
+    const { socket, handlers } = connect(room, leader.id);
+    handlers['excalibur:give']({ targetId: team[1].id });
+    expect(socket.emit).not.toHaveBeenCalled();
+    return { team, holder: team[1] };
+}
+
+function approveAndPlay(room: Room, team: any[], cards: boolean[]) {
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    team.forEach((p, i) => room.submitMissionAction(p.id, cards[i]));
+}
+
+describe('ExcaliburExpansion', () => {
+    it('only lets the leader give Excalibur to another team member', async () => {
+        const room = await startGame();
+        const leader = room.players.find(p => p.isLeader)!;
+        const other = room.players.find(p => p !== leader)!;
+        const outsider = room.players.find(p => p !== leader && p !== other)!;
+        room.selectTeam([leader.id, other.id]);
+
+        const { socket: otherSocket, handlers: otherHandlers } = connect(room, other.id);
+        otherHandlers['excalibur:give']({ targetId: other.id });
+        expect(otherSocket.emit).toHaveBeenCalledWith('error', expect.anything());
+
+        const { socket, handlers } = connect(room, leader.id);
+        handlers['excalibur:give']({ targetId: leader.id });
+        handlers['excalibur:give']({ targetId: outsider.id });
+        expect(socket.emit).toHaveBeenCalledTimes(2);
+
+        handlers['excalibur:give']({ targetId: other.id });
+        expect(socket.emit).toHaveBeenCalledTimes(2);
+        expect((room as any).excaliburState.holder).toBe(other.playerId);
+    });
+
+    it('holds the mission back until the holder decides', async () => {
+        const room = await startGame();
+        const { team } = proposeWithExcalibur(room);
+        approveAndPlay(room, team, team.map(() => true));
+
+        expect(room.phase).toBe('EXCALIBUR');
+        expect(room.missionActions.size).toBe(team.length);
+        // Cards are final while the holder decides
+        expect(room.submitMissionAction(team[0].id, false)).toBe(false);
+    });
+
+    it('flips a card, tells only the holder what it was and resolves the mission', async () => {
+        const room = await startGame();
+        const { team, holder } = proposeWithExcalibur(room);
+        approveAndPlay(room, team, team.map(() => true));
+
+        const { socket, handlers, broadcasts } = connect(room, holder.id);
+        await handlers['excalibur:use']({ targetId: team[0].id });
+
+        expect(socket.emit).toHaveBeenCalledWith('excalibur:result', { targetId: team[0].id, success: true });
+        expect(broadcasts[0]).toEqual(['excalibur:used', { holder: holder.id, target: team[0].id }]);
+        expect(broadcasts[1][0]).toBe('mission_result');
+        expect(broadcasts[1][1]).toMatchObject({ success: false, failCount: 1 });
+        // Announced exactly like a regular mission result
+        expect(broadcasts[1][1]).toHaveProperty('deadline');
+        expect(broadcasts[2][0]).toBe('new_leader');
+        expect(broadcasts[2][1]).toMatchObject({ missionIndex: 1, failsRequired: 1 });
+        expect(broadcasts[2][1]).toHaveProperty('deadline');
+        expect(room.failedMissions).toBe(1);
+        expect(room.phase).toBe('TEAM_SELECTION');
+        expect((room as any).excaliburState.holder).toBeNull();
+
+        // The seen card stays private to the holder, and out of the public game log
+        const holderState: any = await room.getGameState(holder.playerId);
+        expect(holderState.excalibur.mySeenCards).toEqual([{ missionIndex: 0, targetId: team[0].id, success: true }]);
+        const otherState: any = await room.getGameState(team[0].playerId);
+        expect(otherState.excalibur.mySeenCards).toEqual([]);
+        expect(otherState.excalibur.uses).toEqual([{ missionIndex: 0, holder: holder.id, target: team[0].id }]);
+        const use = getPublicEvents(room.events).find(e => e.type === 'expansion:action' && e.payload.action === 'use');
+        expect(JSON.stringify(use)).not.toMatch(/success|original/);
+    });
+
+    it('lets the holder pass, and rejects flipping their own card', async () => {
+        const room = await startGame();
+        const { team, holder } = proposeWithExcalibur(room);
+        approveAndPlay(room, team, team.map(() => true));
+
+        const { socket, handlers } = connect(room, holder.id);
+        await handlers['excalibur:use']({ targetId: holder.id });
+        expect(socket.emit).toHaveBeenCalledWith('error', { message: 'You cannot flip your own card' });
+        expect(room.phase).toBe('EXCALIBUR');
+
+        await handlers['excalibur:use']({});
+        expect(room.succeededMissions).toBe(1);
+        expect(room.phase).toBe('TEAM_SELECTION');
+    });
+
+    it('resolves normally when the leader keeps Excalibur out of play', async () => {
+        const room = await startGame();
+        const team = room.players.slice(0, room.getCurrentMissionSize());
+        room.selectTeam(team.map(p => p.id));
+        approveAndPlay(room, team, team.map(() => true));
+        expect(room.phase).toBe('MISSION');
+    });
+
+    it('rebuilds the flip from the game log', async () => {
+        const room = await startGame();
+        const { team, holder } = proposeWithExcalibur(room);
+        approveAndPlay(room, team, team.map(() => true));
+        const { handlers } = connect(room, holder.id);
+        await handlers['excalibur:use']({ targetId: team[0].id });
+
+        const replayed: any = replayRoom(room.events);
+        expect(replayed.failedMissions).toBe(1);
+        expect(replayed.excaliburState).toEqual((room as any).excaliburState);
+        expect(replayed.phase).toBe(room.phase);
+    });
+
+    it('passes for a holder who lets the deadline expire', async () => {
+        const room = await startGame();
+        room.timerConfig = { ...room.timerConfig, expansionPhaseSeconds: 30 };
+        const { team, holder } = proposeWithExcalibur(room);
+        approveAndPlay(room, team, team.map(() => true));
+
+        expect(room.phaseDeadline?.phase).toBe('EXCALIBUR');
+        expect(room.applyTimeoutDefault()).toEqual({ phase: 'EXCALIBUR', playerIds: [holder.playerId] });
+        expect(room.phase).toBe('MISSION');
+
+        const broadcasts: string[] = [];
+        const io = { to: () => ({ emit: (event: string) => broadcasts.push(event) }) };
+        await room.getExpansionPhaseTimeout('EXCALIBUR')!.announce!(room, io);
+        expect(broadcasts[0]).toBe('mission_result');
+        expect(room.succeededMissions).toBe(1);
+        expect(replayRoom(room.events).phase).toBe(room.phase);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { AVAILABLE_EXPANSIONS } from '../expansions';
+import {
+    defaultExpansionOptions,
+    parseVersion,
+    satisfiesVersion,
+    validateExpansionOptions,
+    validateExpansionSelection,
+} from '../expansions/validation';
+
+describe('Expansion validation', () => {
+    it('accepts a valid selection and drops duplicates', () => {
+        expect(validateExpansionSelection(['merlin-assassin', 'percival-morgana', 'merlin-assassin'])).toEqual({
+            expansions: ['merlin-assassin', 'percival-morgana'],
+            options: { 'merlin-assassin': {}, 'percival-morgana': {} },
+            errors: [],
+        });
+        expect(validateExpansionSelection(undefined)).toEqual({ expansions: [], options: {}, errors: [] });
+    });
+
+    it('rejects unknown expansions and malformed input', () => {
+        expect(validateExpansionSelection(['nope']).errors).toEqual(['Unknown expansion: nope']);
+        expect(validateExpansionSelection('merlin-assassin').errors).toEqual(['expansions must be a list of expansion ids or { id, options } entries']);
+    });
+
+    it('reports missing requirements', () => {
+        expect(validateExpansionSelection(['percival-morgana']).errors).toEqual([
+            'Percival & Morgana requires Merlin & Assassin',
+        ]);
+    });
+
+    it('reports each conflict once', () => {
+        expect(validateExpansionSelection(['inquisidor', 'lady-of-the-lake']).errors).toEqual([
+            'Inquisidor cannot be combined with Lady of the Lake',
+        ]);
+    });
+
+    it('checks player counts only when they are known', () => {
+        expect(validateExpansionSelection(['hunter']).errors).toEqual([]);
+        expect(validateExpansionSelection(['hunter'], 5).errors).toEqual([]);
+        expect(validateExpansionSelection(['hunter'], 3).errors).toEqual(['Hunter needs at least 5 players (3 in the room)']);
+    });
+
+    it('accepts { id, options } entries and fills in option defaults', () => {
+        const selection = validateExpansionSelection([
+            'merlin-assassin',
+            { id: 'inquisidor', options: { revealLoyaltyOnly: true } },
+        ]);
+        expect(selection.errors).toEqual([]);
+        expect(selection.expansions).toEqual(['merlin-assassin', 'inquisidor']);
+        expect(selection.options.inquisidor).toEqual({ revealLoyaltyOnly: true, skipAfterFinalMission: false });
+    });
+
+    it('rejects options the expansion does not declare or accept', () => {
+        const inquisidor = AVAILABLE_EXPANSIONS.inquisidor;
+        expect(defaultExpansionOptions(inquisidor)).toEqual({ revealLoyaltyOnly: false, skipAfterFinalMission: false });
+
+        const checked = validateExpansionOptions(inquisidor, { revealLoyaltyOnly: 'yes', rounds: 3 });
+        expect(checked.errors).toEqual([
+            'Inquisidor option revealLoyaltyOnly must be a boolean',
+            'Inquisidor has no option rounds',
+        ]);
+        expect(checked.options).toEqual(defaultExpansionOptions(inquisidor));
+        expect(validateExpansionOptions(inquisidor, [true]).errors).toEqual(['Inquisidor options must be an object']);
+    });
+
+    it('compares semver versions', () => {
+        expect(parseVersion('1.2.3')).toEqual([1, 2, 3]);
+        expect(parseVersion('1.2')).toBeNull();
+        expect(satisfiesVersion('1.4.0', '^1.2.0')).toBe(true);
+        expect(satisfiesVersion('2.0.0', '^1.2.0')).toBe(false);
+        expect(satisfiesVersion('1.2.9', '~1.2.3')).toBe(true);
+        expect(satisfiesVersion('1.3.0', '~1.2.3')).toBe(false);
+        expect(satisfiesVersion('1.2.3', '1.2.3')).toBe(true);
+    });
+
+    it('declares valid metadata on every expansion', () => {
+        Object.values(AVAILABLE_EXPANSIONS).forEach(expansion => {
+            expect(parseVersion(expansion.version)).not.toBeNull();
+            [...(expansion.requires || []), ...(expansion.conflictsWith || [])].forEach(requirement => {
+                expect(Object.keys(AVAILABLE_EXPANSIONS)).toContain(requirement.split('@')[0]);
+            });
+            Object.values(expansion.options || {}).forEach(option => {
+                expect(typeof option.default).toBe(option.type);
+            });
+        });
+    });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+import { getPublicEvents } from '../events/publicLog';
+import { MerlinAssassinExpansion } from '../expansions/merlin-assassin';
+
+async function setupRoom(expansions: string[] = []) {
+  const gm = new GameManager();
+  const room = gm.createRoom(5, expansions);
+  for (let i = 0; i < 5; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  await room.startGame();
+  return room;
+}
+
+function proposeAndVote(room: Room, approve: boolean) {
+  const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+  room.selectTeam(team);
+  room.players.forEach(p => room.submitVote(p.id, approve));
+  room.tallyVotes();
+  return team;
+}
+
+function comparableState(room: Room) {
+  const { events, lastActivityAt, createdAt, ...state } = room.toSnapshot();
+  return state;
+}
+
+describe('Game event log', () => {
+  it('records every transition of a round as typed events', async () => {
+    const room = await setupRoom();
+
+    proposeAndVote(room, false);
+    const team = proposeAndVote(room, true);
+    team.forEach((id, i) => room.submitMissionAction(id, i !== 0));
+    await room.resolveMission();
+
+    const types = room.events.map(e => e.type);
+    expect(types.slice(0, 8)).toEqual([
+      'room:created',
+      'player:joined', 'host:changed', 'player:joined', 'player:joined', 'player:joined', 'player:joined',
+      'game:started',
+    ]);
+    expect(types).toContain('turn:advanced');
+    expect(room.events.map(e => e.seq)).toEqual(room.events.map((_, i) => i));
+
+    // Rejected proposal keeps who proposed it and every individual vote
+    const tallies = room.events.filter(e => e.type === 'votes:tallied');
+    expect(tallies).toHaveLength(2);
+    const firstTally = tallies[0];
+    if (firstTally.type !== 'votes:tallied') throw new Error('unreachable');
+    expect(firstTally.payload.approved).toBe(false);
+    expect(Object.keys(firstTally.payload.votes)).toHaveLength(5);
+
+    const resolved = room.events.find(e => e.type === 'mission:resolved');
+    expect(resolved?.payload).toMatchObject({ missionIndex: 0, success: false, failCount: 1, nextMissionIndex: 1 });
+  });
+
+  it('records the tally before the leader rotation it causes', async () => {
+    const room = await setupRoom();
+    proposeAndVote(room, false);
+
+    const types = room.events.map(e => e.type);
+    expect(types.indexOf('votes:tallied')).toBeLessThan(types.lastIndexOf('turn:advanced'));
+  });
+
+  it('rebuilds an identical room by replaying its events', async () => {
+    const room = await setupRoom(['merlin-assassin']);
+
+    for (let m = 0; m < 3; m++) {
+      const team = proposeAndVote(room, true);
+      team.forEach(id => room.submitMissionAction(id, true));
+      await room.resolveMission();
+    }
+    expect(room.phase).toBe('ASSASSINATION');
+
+    const merlin = room.players.find(p => p.specialRole === 'MERLIN')!;
+    const assassin = room.players.find(p => p.specialRole === 'ASSASSIN')!;
+    const handlers: Record<string, Function> = {};
+    const socket = { id: assassin.id, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+    MerlinAssassinExpansion.registerSocketHandlers!(socket, room, undefined);
+    handlers['assassinate']({ targetId: merlin.id });
+
+    const replayed = replayRoom(room.events);
+    expect(comparableState(replayed)).toEqual(comparableState(room));
+    expect(replayed.getWinner()).toBe('SPY');
+    expect(replayed.events).toEqual(room.events);
+  });
+
+  it('records a missed assassination when the Assassin lets the deadline expire', async () => {
+    const room = await setupRoom(['merlin-assassin']);
+    room.timerConfig = { ...room.timerConfig, expansionPhaseSeconds: 30 };
+
+    for (let m = 0; m < 3; m++) {
+      const team = proposeAndVote(room, true);
+      team.forEach(id => room.submitMissionAction(id, true));
+      await room.resolveMission();
+    }
+    const assassin = room.players.find(p => p.specialRole === 'ASSASSIN')!;
+    expect(room.phaseDeadline?.phase).toBe('ASSASSINATION');
+    expect(room.applyTimeoutDefault()).toEqual({ phase: 'ASSASSINATION', playerIds: [assassin.playerId] });
+    expect(room.getWinner()).toBe('RESISTANCE');
+
+    const broadcasts: string[] = [];
+    const io = { to: () => ({ emit: (event: string) => broadcasts.push(event) }) };
+    await room.getExpansionPhaseTimeout('ASSASSINATION')!.announce!(room, io);
+    expect(broadcasts).toEqual(['game_over']);
+
+    const replayed = replayRoom(room.events);
+    expect(replayed.phase).toBe('GAME_OVER');
+    expect(replayed.getWinner()).toBe('RESISTANCE');
+  });
+
+  it('replays a game that was reset', async () => {
+    const room = await setupRoom();
+    proposeAndVote(room, false);
+    // The new deal forgets the role this player was dealt before switching
+    room.switchAllegiance(room.players[0].playerId);
+    await room.resetGame();
+
+    const replayed = replayRoom(room.events);
+    expect(comparableState(replayed)).toEqual(comparableState(room));
+  });
+
+  it('replays expansion actions through the expansion', async () => {
+    const room = await setupRoom(['inquisidor']);
+    const holder = room.players.find(p => p.playerId === (room as any).inquisitorState.tokenHolder)!;
+    const target = room.players.find(p => p !== holder)!;
+
+    // Simulate what the inquisitor:investigate handler records
+    (room as any).inquisitorState.tokenHolder = target.playerId;
+    (room as any).inquisitorState.lastInvestigated = target.playerId;
+    room.recordEvent('expansion:action', {
+      expansionId: 'inquisidor',
+      action: 'investigate',
+      actorId: holder.playerId,
+      targetId: target.playerId,
+    });
+
+    const replayed = replayRoom(room.events) as any;
+    expect(replayed.inquisitorState.tokenHolder).toBe(target.playerId);
+    expect(replayed.inquisitorState.investigationHistory).toEqual([
+      expect.objectContaining({ investigator: holder.playerId, target: target.playerId }),
+    ]);
+  });
+
+  it('refuses to replay a log without room:created', () => {
+    expect(() => replayRoom([])).toThrow();
+  });
+
+  it('public log hides which mission card each player played', async () => {
+    const room = await setupRoom();
+    const team = proposeAndVote(room, true);
+    team.forEach(id => room.submitMissionAction(id, false));
+
+    const actions = getPublicEvents(room.events).filter(e => e.type === 'mission:action');
+    expect(actions).toHaveLength(team.length);
+    actions.forEach(e => expect(e.payload).not.toHaveProperty('success'));
+
+    // The room's own log is untouched
+    expect(room.events.filter(e => e.type === 'mission:action').every(e => 'success' in e.payload)).toBe(true);
+  });
+
+  it('public log hides the RNG seed and state, and a restart reseeds the room', async () => {
+    const room = await setupRoom();
+    const seed = room.rng.seed;
+    await room.resetGame();
+    expect(room.rng.seed).not.toBe(seed);
+
+    const events = getPublicEvents(room.events);
+    expect(events.find(e => e.type === 'room:created')!.payload).not.toHaveProperty('seed');
+    expect(events.find(e => e.type === 'game:reset')!.payload).not.toHaveProperty('seed');
+    events.forEach(e => expect(e).not.toHaveProperty('rngState'));
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { GameManager } from '../GameManager'
+import { replayRoom } from '../events/replay'
 
 describe('GameManager', () => {
   it('creates and retrieves rooms', () => {
@@ -17,6 +18,34 @@ describe('GameManager', () => {
     expect(gm.getRoom(room.id)).toBeUndefined()
   })
 
+  it('uninstalls the expansions of a removed room', () => {
+    const gm = new GameManager()
+    const room = gm.createRoom(5, ['merlin-assassin', 'hunter'])
+    const hookManager = (room as any).hookManager
+    expect(hookManager.getCallbackCount('mission:resolve')).toBe(2)
+
+    gm.removeRoom(room.id)
+    expect(hookManager.getCallbackCount('mission:resolve')).toBe(0)
+    expect(hookManager.getCallbackCount('roles:assign')).toBe(0)
+  })
+
+  it('swaps the expansions of a lobby', async () => {
+    const gm = new GameManager()
+    const room = gm.createRoom(5, ['merlin-assassin', 'hunter'])
+    const hookManager = (room as any).hookManager
+
+    expect(gm.setExpansions(room, ['excalibur'], { excalibur: {} })).toBe(true)
+    expect(room.expansions).toEqual(['excalibur'])
+    expect(hookManager.getCallbackCount('roles:assign')).toBe(0)
+    expect(hookManager.getCallbackCount('mission:submit')).toBe(1)
+    expect(replayRoom(room.events).expansions).toEqual(['excalibur'])
+
+    for (let i = 0; i < 5; i++) room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`)
+    await room.startGame()
+    expect(gm.setExpansions(room, [])).toBe(false)
+    expect(room.expansions).toEqual(['excalibur'])
+  })
+
   it('installs known expansions when creating room', () => {
     const gm = new GameManager()
     // Use known expansion id 'blind-spies' which exists in AVAILABLE_EXPANSIONS
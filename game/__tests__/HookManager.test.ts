@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { HookManager } from '../hooks/HookManager';
+import { Room } from '../Room';
 
 describe('HookManager', () => {
   let hm: HookManager;
@@ -39,6 +40,15 @@ describe('HookManager', () => {
     expect(result.value).toBe(1);
   });
 
+  it('a veto (cancel) stops further callbacks', () => {
+    hm.register('veto:hook' as any, (ctx) => ({ ...ctx, cancel: true, reason: 'no' }));
+    hm.register('veto:hook' as any, (ctx) => ({ ...ctx, cancel: false }));
+
+    const result = hm.triggerSync('veto:hook' as any, {});
+    expect(result.cancel).toBe(true);
+    expect(result.reason).toBe('no');
+  });
+
   it('clear removes callbacks and getCallbackCount works', () => {
     hm.register('a:hook' as any, async (c) => c);
     hm.register('a:hook' as any, async (c) => c);
@@ -51,4 +61,83 @@ describe('HookManager', () => {
     hm.clear();
     expect(hm.getCallbackCount('b:hook' as any)).toBe(0);
   });
+
+  it('triggerSync runs synchronous callbacks and skips async ones', () => {
+    hm.register('sync:hook' as any, (ctx) => {
+      ctx.value = ctx.value + 1;
+      return ctx;
+    });
+    hm.register('sync:hook' as any, async (ctx) => ({ ...ctx, value: 999 }));
+
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = hm.triggerSync('sync:hook' as any, { value: 1 });
+    expect(result.value).toBe(2);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('passes each hook its own typed context', () => {
+    const room = new Room('typed', 5, [], hm);
+    hm.register('vote:tally', (ctx) => ({ ...ctx, result: { ...ctx.result, approved: !ctx.result.approved } }));
+
+    const result = hm.triggerSync('vote:tally', {
+      room,
+      rng: room.rng,
+      result: { approved: true, approveCount: 3, rejectCount: 2 },
+    });
+    expect(result.result.approved).toBe(false);
+    expect(result.room).toBe(room);
+  });
+
+  it('runs callbacks by priority, then in registration order', () => {
+    const calls: string[] = [];
+    hm.register('order:hook' as any, (ctx) => (calls.push('default'), ctx));
+    hm.register('order:hook' as any, (ctx) => (calls.push('late'), ctx), { priority: 10 });
+    hm.register('order:hook' as any, (ctx) => (calls.push('early'), ctx), { priority: -10 });
+
+    hm.triggerSync('order:hook' as any, {});
+    expect(calls).toEqual(['early', 'default', 'late']);
+  });
+
+  it('orders callbacks before or after other owners whatever the registration order', () => {
+    const calls: string[] = [];
+    hm.installAs('b', () => hm.register('order:hook' as any, (ctx) => (calls.push('b'), ctx), { after: ['a'] }));
+    hm.installAs('c', () => hm.register('order:hook' as any, (ctx) => (calls.push('c'), ctx), { before: ['a'] }));
+    hm.installAs('a', () => hm.register('order:hook' as any, (ctx) => (calls.push('a'), ctx)));
+
+    hm.triggerSync('order:hook' as any, {});
+    expect(calls).toEqual(['c', 'a', 'b']);
+  });
+
+  it('falls back to priorities when constraints conflict', () => {
+    const calls: string[] = [];
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    hm.register('order:hook' as any, (ctx) => (calls.push('a'), ctx), { owner: 'a', after: ['b'] });
+    hm.register('order:hook' as any, (ctx) => (calls.push('b'), ctx), { owner: 'b', after: ['a'] });
+
+    hm.triggerSync('order:hook' as any, {});
+    expect(calls).toEqual(['a', 'b']);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+
+  it('disposes a single callback through its handle', () => {
+    const handle = hm.register('a:hook' as any, (c) => c);
+    hm.register('a:hook' as any, (c) => c);
+    handle.dispose();
+    handle.dispose();
+    expect(hm.getCallbackCount('a:hook' as any)).toBe(1);
+  });
+
+  it('unregisterOwner removes every callback an expansion registered', () => {
+    hm.installAs('x', () => {
+      hm.register('a:hook' as any, (c) => c);
+      hm.register('b:hook' as any, (c) => c);
+    });
+    hm.register('a:hook' as any, (c) => c);
+
+    expect(hm.unregisterOwner('x')).toBe(2);
+    expect(hm.getCallbackCount('a:hook' as any)).toBe(1);
+    expect(hm.getCallbackCount('b:hook' as any)).toBe(0);
+  });
 });
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+import { getReplayPage } from '../events/timeline';
+import { HunterExpansion } from '../expansions/hunter';
+import { validateExpansionSelection } from '../expansions/validation';
+
+async function startGame(expansions: string[] = ['hunter'], players = 7, options: Record<string, boolean> = {}) {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, expansions, undefined, 'hunter', { hunter: options });
+    for (let i = 0; i < players; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+// Plays the current mission with the given team; every member plays `success` unless forced otherwise
+async function playMission(room: Room, team: string[], success: boolean) {
+    room.selectTeam(team);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    team.forEach(id => room.submitMissionAction(id, success));
+    return room.resolveMission();
+}
+
+// Registers the expansion's handlers on a fake socket for `socketId`
+function connect(room: Room, socketId: string) {
+    const handlers: Record<string, Function> = {};
+    const socket = { id: socketId, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+    const io = { to: () => ({ emit: vi.fn() }) };
+    HunterExpansion.registerSocketHandlers!(socket, room, io);
+    return { socket, handlers };
+}
+
+const find = (room: Room, specialRole: string) => room.players.find(p => p.specialRole === specialRole)!;
+const resistanceTeam = (room: Room) => room.players.filter(p => p.role === 'RESISTANCE').map(p => p.id).slice(0, room.getCurrentMissionSize());
+
+describe('HunterExpansion', () => {
+    it('assigns a Chief and a Hunter to each team', async () => {
+        const room = await startGame();
+        expect(find(room, 'RESISTANCE_CHIEF').role).toBe('RESISTANCE');
+        expect(find(room, 'RESISTANCE_HUNTER').role).toBe('RESISTANCE');
+        expect(find(room, 'SPY_CHIEF').role).toBe('SPY');
+        expect(find(room, 'SPY_HUNTER').role).toBe('SPY');
+        expect(room.players.some(p => p.specialRole === 'DUMMY_AGENT')).toBe(false);
+    });
+
+    it('adds Dummy Agents when the host turns them on', async () => {
+        const room = await startGame(['hunter'], 8, { resistanceDummyAgent: true });
+
+        const dummies = room.players.filter(p => p.specialRole === 'DUMMY_AGENT');
+        expect(dummies.map(p => p.role)).toEqual(['RESISTANCE']);
+    });
+
+    it('declares its options through the expansion schema', async () => {
+        const selection = validateExpansionSelection([{ id: 'hunter', options: { chiefCardMission3: false, chiefCardMission6: true } }]);
+        expect(selection.errors).toEqual(['Hunter has no option chiefCardMission6']);
+        expect(selection.options.hunter).toMatchObject({ chiefCardMission1: false, chiefCardMission3: false, chiefCardMission5: true });
+
+        // Without a Chief card on mission 3, the Spy Chief plays like any spy
+        const room = await startGame(['hunter'], 7, { chiefCardMission3: false });
+        room.currentMissionIndex = 2;
+        const chief = find(room, 'SPY_CHIEF');
+        const others = room.players.filter(p => p.role === 'RESISTANCE').map(p => p.id);
+        const result = await playMission(room, [chief.id, ...others].slice(0, room.getCurrentMissionSize()), true);
+        expect(result.success).toBe(true);
+    });
+
+    it('makes Chiefs play their Chief card on chief missions', async () => {
+        const room = await startGame();
+        const chief = find(room, 'SPY_CHIEF');
+        room.currentMissionIndex = 2;
+        const others = room.players.filter(p => p.role === 'RESISTANCE' && p.specialRole !== 'RESISTANCE_CHIEF').map(p => p.id);
+        const team = [chief.id, ...others].slice(0, room.getCurrentMissionSize());
+
+        const result = await playMission(room, team, true);
+        expect(result.success).toBe(false);
+        expect(room.events.filter(e => e.type === 'mission:action').find(e => e.payload.playerId === chief.playerId)?.payload.success).toBe(false);
+
+        const state: any = await room.getGameState(room.players[0].playerId);
+        expect(state.hunter.chiefCardsByMission).toEqual([0, 0, 1, 0, 0]);
+
+        // The public replay shows the card, never who played it
+        const actions = getReplayPage(room, 1, 5).rounds.flatMap(r => r.expansionActions);
+        expect(actions.find(a => a.action === 'chief-card')).toMatchObject({ actorId: null, targetId: null });
+    });
+
+    it('counts a Chief card once when the Chief sends their card again', async () => {
+        const room = await startGame();
+        const chief = find(room, 'SPY_CHIEF');
+        room.currentMissionIndex = 2;
+        const others = room.players.filter(p => p.role === 'RESISTANCE').map(p => p.id);
+        room.selectTeam([chief.id, ...others].slice(0, room.getCurrentMissionSize()));
+        room.players.forEach(p => room.submitVote(p.id, true));
+        room.tallyVotes();
+
+        room.submitMissionAction(chief.id, true);
+        room.submitMissionAction(chief.id, true);
+
+        const state: any = await room.getGameState(room.players[0].playerId);
+        expect(state.hunter.chiefCardsByMission).toEqual([0, 0, 1, 0, 0]);
+        expect(room.events.filter(e => e.type === 'expansion:action' && e.payload.action === 'chief-card')).toHaveLength(1);
+    });
+
+    it('lets the Spy Hunter steal the win by finding the Resistance Chief', async () => {
+        const room = await startGame();
+        for (let i = 0; i < 3; i++) {
+            await playMission(room, resistanceTeam(room), true);
+        }
+        expect(room.phase).toBe('HUNT');
+        expect(room.getWinner()).toBeNull();
+
+        const hunter = find(room, 'SPY_HUNTER');
+        const { socket, handlers } = connect(room, find(room, 'RESISTANCE_HUNTER').id);
+        handlers['hunter:hunt']({ targetId: hunter.id });
+        expect(socket.emit).toHaveBeenCalledWith('error', { message: 'Only the Hunter can hunt' });
+
+        connect(room, hunter.id).handlers['hunter:hunt']({ targetId: find(room, 'RESISTANCE_CHIEF').id });
+        expect(room.phase).toBe('GAME_OVER');
+        expect(room.getWinner()).toBe('SPY');
+
+        const replayed = replayRoom(room.events);
+        expect(replayed.getWinner()).toBe('SPY');
+        expect((replayed as any).hunterState.result).toEqual((room as any).hunterState.result);
+    });
+
+    it('keeps the mission winner when the hunt misses', async () => {
+        const room = await startGame();
+        for (let i = 0; i < 3; i++) {
+            await playMission(room, resistanceTeam(room), true);
+        }
+
+        const hunter = find(room, 'SPY_HUNTER');
+        connect(room, hunter.id).handlers['hunter:hunt']({ targetId: find(room, 'RESISTANCE_HUNTER').id });
+        expect((room as any).hunterState.result.success).toBe(false);
+        expect(room.getWinner()).toBe('RESISTANCE');
+    });
+
+    it('misses the hunt when the Hunter lets the deadline expire', async () => {
+        const room = await startGame();
+        room.timerConfig = { ...room.timerConfig, expansionPhaseSeconds: 30 };
+        for (let i = 0; i < 3; i++) {
+            await playMission(room, resistanceTeam(room), true);
+        }
+
+        expect(room.phaseDeadline?.phase).toBe('HUNT');
+        expect(room.applyTimeoutDefault()).toEqual({ phase: 'HUNT', playerIds: [find(room, 'SPY_HUNTER').playerId] });
+        expect(room.phase).toBe('GAME_OVER');
+        expect(room.getWinner()).toBe('RESISTANCE');
+
+        const broadcasts: string[] = [];
+        const io = { to: () => ({ emit: (event: string) => broadcasts.push(event) }) };
+        await room.getExpansionPhaseTimeout('HUNT')!.announce!(room, io);
+        expect(broadcasts).toEqual(['hunt_result', 'game_over']);
+
+        const replayed = replayRoom(room.events);
+        expect(replayed.getWinner()).toBe('RESISTANCE');
+        expect((replayed as any).hunterState).toEqual((room as any).hunterState);
+    });
+
+    it('replaces the assassination whatever the install order', async () => {
+        for (const expansions of [['merlin-assassin', 'hunter'], ['hunter', 'merlin-assassin']]) {
+            const room = await startGame(expansions, 10);
+            for (let i = 0; i < 3; i++) {
+                await playMission(room, resistanceTeam(room), true);
+            }
+            expect(room.phase).toBe('HUNT');
+        }
+    });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { HookManager } from '../hooks/HookManager';
 import { InquisidorExpansion } from '../expansions/inquisidor';
 import { Room } from '../Room';
+import { GameManager } from '../GameManager';
+import { replayRoom } from '../events/replay';
 
 describe('InquisidorExpansion', () => {
     let hm: HookManager;
@@ -57,13 +59,14 @@ describe('InquisidorExpansion', () => {
         // Trigger game:start
         await hm.trigger('game:start' as any, { room });
 
-        expect(room.inquisitorState).toBeDefined();
+        const state = room.inquisitorState!;
+        expect(state).toBeDefined();
         // Check that tokenHolder is a UUID (one of uuid-1, uuid-2, uuid-3)
-        expect(['uuid-1', 'uuid-2', 'uuid-3']).toContain(room.inquisitorState.tokenHolder);
-        expect(room.inquisitorState.lastInvestigated).toBeNull();
+        expect(['uuid-1', 'uuid-2', 'uuid-3']).toContain(state.tokenHolder);
+        expect(state.lastInvestigated).toBeNull();
 
         // socket id check (should NOT be socket-1 etc)
-        expect(['socket-1', 'socket-2', 'socket-3']).not.toContain(room.inquisitorState.tokenHolder);
+        expect(['socket-1', 'socket-2', 'socket-3']).not.toContain(state.tokenHolder);
     });
 
     it('converts UUID to SocketID during state:sync', async () => {
@@ -192,3 +195,89 @@ describe('InquisidorExpansion', () => {
         });
     });
 });
+
+async function startGame(options: Record<string, boolean>) {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, ['inquisidor'], undefined, 'inquisidor', { inquisidor: options });
+    for (let i = 0; i < 5; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+describe('InquisidorExpansion options', () => {
+    // Holder investigates the next player through the expansion's socket handler
+    function investigateNext(room: Room) {
+        const holder = room.players.find(p => p.playerId === room.inquisitorState!.tokenHolder)!;
+        const target = room.players.find(p => p !== holder)!;
+        const handlers: Record<string, Function> = {};
+        const socket = { id: holder.id, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+        InquisidorExpansion.registerSocketHandlers!(socket, room, { to: () => ({ emit: vi.fn() }) });
+        handlers['inquisitor:investigate']({ targetId: target.id });
+        return socket.emit.mock.calls.find(([event]) => event === 'inquisitor:investigation-result')![1];
+    }
+
+    it('keeps the chosen options on the room, its snapshot and its game log', async () => {
+        const room = await startGame({ revealLoyaltyOnly: true });
+
+        expect(room.getExpansionOptions('inquisidor')).toEqual({ revealLoyaltyOnly: true, skipAfterFinalMission: false });
+        expect(room.toSnapshot().expansionOptions).toEqual({ inquisidor: { revealLoyaltyOnly: true } });
+        expect(replayRoom(room.events).getExpansionOptions('inquisidor').revealLoyaltyOnly).toBe(true);
+    });
+
+    it('reveals the special role by default', async () => {
+        const room = await startGame({});
+        expect(investigateNext(room)).toHaveProperty('specialRole');
+    });
+
+    it('reveals only the loyalty with revealLoyaltyOnly', async () => {
+        const room = await startGame({ revealLoyaltyOnly: true });
+        const result = investigateNext(room);
+
+        expect(result.role).toMatch(/RESISTANCE|SPY/);
+        expect(result).not.toHaveProperty('specialRole');
+        const event = room.events.find(e => e.type === 'expansion:action' && e.payload.action === 'investigate')!;
+        expect((event.payload as any).data).toEqual({ role: result.role });
+    });
+
+    it('skips the investigation before the final mission with skipAfterFinalMission', async () => {
+        const resolve = async (options: Record<string, boolean>) => {
+            const hookManager = new HookManager();
+            const room = new Room('FINAL', 5, ['inquisidor'], hookManager, undefined, { inquisidor: options });
+            InquisidorExpansion.install(hookManager);
+            room.missionHistory = room.missionHistory.map((_, i) => (i < 4 ? { success: i < 2, failCount: 0, failsRequired: 1 } : null));
+            const context: any = await hookManager.trigger('mission:resolve' as any, { room, nextPhase: 'TEAM_SELECTION' });
+            return context.nextPhase;
+        };
+
+        expect(await resolve({ skipAfterFinalMission: false })).toBe('INQUISITOR_INVESTIGATION');
+        expect(await resolve({ skipAfterFinalMission: true })).toBe('TEAM_SELECTION');
+    });
+});
+
+describe('InquisidorExpansion deadline', () => {
+    it('skips the investigation when the token holder lets the deadline expire', async () => {
+        const room = await startGame({});
+        room.timerConfig = { ...room.timerConfig, expansionPhaseSeconds: 30 };
+        const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+        room.selectTeam(team);
+        room.players.forEach(p => room.submitVote(p.id, true));
+        room.tallyVotes();
+        team.forEach(id => room.submitMissionAction(id, true));
+        await room.resolveMission();
+
+        const holder = room.inquisitorState!.tokenHolder;
+        expect(room.phaseDeadline?.phase).toBe('INQUISITOR_INVESTIGATION');
+        expect(room.applyTimeoutDefault()).toEqual({ phase: 'INQUISITOR_INVESTIGATION', playerIds: [holder] });
+        expect(room.phase).toBe('TEAM_SELECTION');
+        expect(room.inquisitorState!.tokenHolder).toBe(holder);
+        expect(room.inquisitorState!.investigationHistory).toEqual([]);
+
+        const broadcasts: string[] = [];
+        const io = { to: () => ({ emit: (event: string) => broadcasts.push(event) }) };
+        await room.getExpansionPhaseTimeout('INQUISITOR_INVESTIGATION')!.announce!(room, io);
+        expect(broadcasts).toEqual(['phase_change', 'new_leader']);
+        expect(replayRoom(room.events).phase).toBe('TEAM_SELECTION');
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { KnowledgeModel } from '../knowledge/KnowledgeModel';
+import { VisibilityRule } from '../knowledge/types';
+
+function seatedRoom(roles: Array<[string, string | null]>) {
+    const room = new Room('knowledge', 5);
+    roles.forEach(([role, specialRole], i) => {
+        const player = room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+        player.role = role as any;
+        player.specialRole = specialRole as any;
+    });
+    return room;
+}
+
+describe('KnowledgeModel', () => {
+    const room = seatedRoom([
+        ['SPY', null],
+        ['SPY', 'MORDRED'],
+        ['RESISTANCE', 'MERLIN'],
+        ['RESISTANCE', null],
+    ]);
+    const [spy, mordred, merlin, loyal] = room.players;
+
+    it('lets spies see each other by default', () => {
+        const model = new KnowledgeModel();
+        expect(model.getKnowledge(room, spy)).toEqual({
+            spies: [{ id: 'socket-0', nickname: 'Player0' }, { id: 'socket-1', nickname: 'Player1' }],
+        });
+        expect(model.getKnowledge(room, loyal)).toEqual({});
+    });
+
+    it('lets a hide rule win over any reveal rule, whatever the order', () => {
+        const reveal: VisibilityRule = {
+            kind: 'spies',
+            effect: 'reveal',
+            description: 'Merlin sees the spies',
+            applies: (viewer, target) => viewer.specialRole === 'MERLIN' && target.role === 'SPY',
+        };
+        const hide: VisibilityRule = {
+            kind: 'spies',
+            effect: 'hide',
+            description: 'Merlin does not see Mordred',
+            applies: (viewer, target) => viewer.specialRole === 'MERLIN' && target.specialRole === 'MORDRED',
+        };
+
+        [[reveal, hide], [hide, reveal]].forEach(rules => {
+            const model = new KnowledgeModel(rules);
+            expect(model.sees(room, merlin, spy, 'spies')).toBe(true);
+            expect(model.sees(room, merlin, mordred, 'spies')).toBe(false);
+            expect(model.sees(room, spy, mordred, 'spies')).toBe(true);
+        });
+    });
+
+    it('builds the game state and the role assignment from the same rules', async () => {
+        const gm = new GameManager();
+        const room = gm.createRoom(5, ['blind-spies', 'mordred-oberon', 'percival-morgana', 'merlin-assassin'], undefined, 'knowledge');
+        for (let i = 0; i < 10; i++) {
+            room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+        }
+        await room.startGame();
+
+        for (const player of room.players) {
+            const state: any = await room.getGameState(player.playerId);
+            const knowledge = room.getKnowledge(player);
+            expect(state.spies).toEqual(knowledge.spies);
+            expect(state.merlinCandidates).toEqual(knowledge.merlinCandidates);
+        }
+
+        const percival = room.players.find(p => p.specialRole === 'PERCIVAL')!;
+        expect(room.getKnowledge(percival).merlinCandidates).toHaveLength(2);
+        room.players.filter(p => p.role === 'SPY').forEach(p => expect(room.getKnowledge(p).spies).toBeUndefined());
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+import { LadyOfTheLakeExpansion } from '../expansions/lady-of-the-lake';
+
+async function startGame(expansions: string[] = ['lady-of-the-lake']) {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, expansions, undefined, 'lady');
+    for (let i = 0; i < 7; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+async function playMission(room: Room, success = true) {
+    const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+    room.selectTeam(team);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    team.forEach(id => room.submitMissionAction(id, success));
+    await room.resolveMission();
+}
+
+// Registers the expansion's handlers on a fake socket for `socketId`
+function connect(room: Room, socketId: string) {
+    const handlers: Record<string, Function> = {};
+    const socket = { id: socketId, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+    const io = { to: () => ({ emit: vi.fn() }) };
+    LadyOfTheLakeExpansion.registerSocketHandlers!(socket, room, io);
+    return { socket, handlers };
+}
+
+const holderOf = (room: Room) => room.players.find(p => p.playerId === (room as any).ladyOfTheLakeState.holder)!;
+
+describe('LadyOfTheLakeExpansion', () => {
+    it('is only used after missions 2, 3 and 4', async () => {
+        const room = await startGame();
+        await playMission(room);
+        expect(room.phase).toBe('TEAM_SELECTION');
+
+        await playMission(room, false);
+        expect(room.phase).toBe('LADY_OF_THE_LAKE');
+    });
+
+    it('reveals loyalty only to the holder and passes the token on', async () => {
+        const room = await startGame(['merlin-assassin', 'lady-of-the-lake']);
+        await playMission(room);
+        await playMission(room);
+
+        const holder = holderOf(room);
+        const target = room.players.find(p => p.playerId !== holder.playerId && p.specialRole)!;
+        const { socket, handlers } = connect(room, holder.id);
+        handlers['lady:examine']({ targetId: target.id });
+
+        expect(socket.emit).toHaveBeenCalledWith('lady:examination-result', {
+            targetId: target.id,
+            targetNickname: target.nickname,
+            loyalty: target.role,
+        });
+        expect(holderOf(room).playerId).toBe(target.playerId);
+
+        const holderState: any = await room.getGameState(holder.playerId);
+        expect(holderState.ladyOfTheLake.myExaminations).toEqual([{ targetId: target.id, loyalty: target.role }]);
+        const otherState: any = await room.getGameState(target.playerId);
+        expect(otherState.ladyOfTheLake.myExaminations).toEqual([]);
+        expect(JSON.stringify(await room.getSpectatorState())).not.toMatch(/myExaminations|loyalty/);
+    });
+
+    it('forbids examining anyone who has held the token', async () => {
+        const room = await startGame();
+        await playMission(room);
+        await playMission(room, false);
+
+        const first = holderOf(room);
+        const second = room.players.find(p => p.playerId !== first.playerId)!;
+        connect(room, first.id).handlers['lady:examine']({ targetId: second.id });
+        connect(room, first.id).handlers['lady:announce']({});
+        await playMission(room);
+        expect(room.phase).toBe('LADY_OF_THE_LAKE');
+
+        const { socket, handlers } = connect(room, second.id);
+        handlers['lady:examine']({ targetId: first.id });
+        expect(socket.emit).toHaveBeenCalledWith('error', {
+            message: 'You cannot examine a player who has held the Lady of the Lake',
+        });
+        expect(holderOf(room).playerId).toBe(second.playerId);
+    });
+
+    it('records an optional public claim and moves on to the next leader', async () => {
+        const room = await startGame();
+        await playMission(room);
+        await playMission(room);
+
+        const holder = holderOf(room);
+        const target = room.players.find(p => p.playerId !== holder.playerId)!;
+        const { handlers } = connect(room, holder.id);
+        handlers['lady:examine']({ targetId: target.id });
+        handlers['lady:announce']({ claim: 'SPY' });
+
+        expect(room.phase).toBe('TEAM_SELECTION');
+        expect(room.events.filter(e => e.type === 'expansion:action').map(e => e.payload)).toContainEqual({
+            expansionId: 'lady-of-the-lake',
+            action: 'claim',
+            actorId: holder.playerId,
+            targetId: target.playerId,
+            data: { claim: 'SPY' },
+        });
+
+        const state: any = await room.getGameState(target.playerId);
+        expect(state.ladyOfTheLake.claims).toEqual([{ examiner: holder.id, target: target.id, claim: 'SPY' }]);
+
+        // The log rebuilds the same token state
+        const replayed: any = replayRoom(room.events);
+        expect(replayed.ladyOfTheLakeState).toEqual((room as any).ladyOfTheLakeState);
+        expect(replayed.phase).toBe('TEAM_SELECTION');
+    });
+
+    it('ends without an examination or a claim when the deadline expires', async () => {
+        const room = await startGame();
+        room.timerConfig = { ...room.timerConfig, expansionPhaseSeconds: 30 };
+        await playMission(room);
+        await playMission(room, false);
+
+        const holder = holderOf(room);
+        expect(room.phaseDeadline?.phase).toBe('LADY_OF_THE_LAKE');
+        expect(room.applyTimeoutDefault()).toEqual({ phase: 'LADY_OF_THE_LAKE', playerIds: [holder.playerId] });
+        expect(room.phase).toBe('TEAM_SELECTION');
+        expect(holderOf(room)).toBe(holder);
+        expect((room as any).ladyOfTheLakeState.examinations).toEqual([]);
+        expect(replayRoom(room.events).phase).toBe('TEAM_SELECTION');
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+
+async function startGame(io?: any) {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, ['merlin-assassin', 'lancelot'], io, 'lancelot');
+    for (let i = 0; i < 7; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+async function playMission(room: Room, success = true) {
+    const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+    room.selectTeam(team);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    team.forEach(id => room.submitMissionAction(id, success));
+    await room.resolveMission();
+}
+
+const lancelot = (room: Room, specialRole: string) => room.players.find(p => p.specialRole === specialRole)!;
+
+// Replaces the loyalty deck with cards in a known order
+function stackDeck(room: Room, deck: string[]) {
+    (room as any).lancelotState.deck = deck;
+}
+
+describe('LancelotExpansion', () => {
+    it('assigns one Lancelot to each team', async () => {
+        const room = await startGame();
+        expect(lancelot(room, 'GOOD_LANCELOT').role).toBe('RESISTANCE');
+        expect(lancelot(room, 'EVIL_LANCELOT').role).toBe('SPY');
+        expect((room as any).lancelotState.deck).toHaveLength(5);
+    });
+
+    it('draws loyalty cards from mission 3 onward', async () => {
+        const room = await startGame();
+        await playMission(room);
+        expect((room as any).lancelotState.drawn).toEqual([]);
+
+        await playMission(room, false);
+        expect((room as any).lancelotState.drawn).toHaveLength(1);
+        expect((room as any).lancelotState.drawn[0].missionIndex).toBe(2);
+
+        const state: any = await room.getGameState('uuid-0');
+        expect(state.lancelot.remaining).toBe(4);
+    });
+
+    it('switches both Lancelots and tells only them', async () => {
+        const emitted: Array<[string, string, any]> = [];
+        const io = { to: (target: string) => ({ emit: (event: string, payload: any) => emitted.push([target, event, payload]) }) };
+        const room = await startGame(io);
+        const good = lancelot(room, 'GOOD_LANCELOT');
+        const evil = lancelot(room, 'EVIL_LANCELOT');
+        stackDeck(room, ['SWITCH', 'NO_CHANGE', 'NO_CHANGE']);
+
+        await playMission(room);
+        await playMission(room, false);
+
+        expect(good.role).toBe('SPY');
+        expect(evil.role).toBe('RESISTANCE');
+        expect(emitted).toContainEqual([room.id, 'lancelot:loyalty-card', { card: 'SWITCH', missionIndex: 2 }]);
+
+        const privateNotices = emitted.filter(([, event]) => event === 'lancelot:allegiance-changed');
+        expect(privateNotices.map(([target]) => target).sort()).toEqual([good.id, evil.id].sort());
+        const goodNotice = privateNotices.find(([target]) => target === good.id)![2];
+        expect(goodNotice).toEqual({ role: 'SPY' });
+    });
+
+    it('keeps everyone\'s knowledge as dealt after a switch', async () => {
+        const room = await startGame();
+        const good = lancelot(room, 'GOOD_LANCELOT');
+        const evil = lancelot(room, 'EVIL_LANCELOT');
+        const spy = room.players.find(p => p.role === 'SPY' && p !== evil)!;
+        const spiesBefore = room.getKnowledge(spy).spies;
+        stackDeck(room, ['SWITCH', 'NO_CHANGE', 'NO_CHANGE']);
+
+        await playMission(room);
+        await playMission(room, false);
+
+        expect(good.role).toBe('SPY');
+        expect(room.getKnowledge(spy).spies).toEqual(spiesBefore);
+        expect(room.getKnowledge(good).spies).toBeUndefined();
+        expect(room.getKnowledge(evil).spies!.map(p => p.id)).toContain(spy.id);
+    });
+
+    it('reveals the final teams and winner after a switch', async () => {
+        const room = await startGame();
+        const good = lancelot(room, 'GOOD_LANCELOT');
+        stackDeck(room, ['SWITCH', 'NO_CHANGE', 'NO_CHANGE']);
+
+        await playMission(room, false);
+        await playMission(room, false);
+        await playMission(room, false);
+
+        expect(room.getWinner()).toBe('SPY');
+        expect(room.getRevealedPlayers().find(p => p.id === good.id)).toMatchObject({ role: 'SPY', specialRole: 'GOOD_LANCELOT' });
+    });
+
+    it('only switches allegiance while the game is in progress', async () => {
+        const room = new Room('lobby', 5, [], undefined, 'lobby');
+        room.addPlayer('socket-0', 'Player0', 'uuid-0');
+        expect(room.switchAllegiance('uuid-0')).toBeNull();
+    });
+
+    it('rebuilds switches from the game log', async () => {
+        const room = await startGame();
+        stackDeck(room, ['SWITCH', 'SWITCH', 'NO_CHANGE']);
+        await playMission(room);
+        await playMission(room, false);
+        await playMission(room, false);
+
+        const replayed: any = replayRoom(room.events);
+        expect(replayed.players.map((p: any) => p.role)).toEqual(room.players.map(p => p.role));
+        expect(replayed.lancelotState.drawn).toEqual((room as any).lancelotState.drawn);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+
+async function startGame(expansions: string[], players = 10, seed = 'camelot') {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, expansions, undefined, seed);
+    for (let i = 0; i < players; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+const find = (room: Room, specialRole: string) => room.players.find(p => p.specialRole === specialRole)!;
+const spiesSeenBy = async (room: Room, playerId: string) => {
+    const state: any = await room.getGameState(playerId);
+    return state.spies ? state.spies.map((s: any) => s.id).sort() : undefined;
+};
+
+describe('MordredOberonExpansion', () => {
+    it('assigns Mordred and Oberon to spies next to the Assassin, whatever the install order', async () => {
+        for (const expansions of [
+            ['merlin-assassin', 'mordred-oberon'],
+            ['mordred-oberon', 'merlin-assassin'],
+        ]) {
+            const room = await startGame(expansions);
+            ['ASSASSIN', 'MORDRED', 'OBERON'].forEach(role => {
+                expect(find(room, role)?.role).toBe('SPY');
+            });
+        }
+    });
+
+    it('keeps a spy for the Assassin when there are only two spies', async () => {
+        const room = await startGame(['mordred-oberon', 'merlin-assassin'], 5);
+        expect(find(room, 'ASSASSIN')).toBeDefined();
+        expect(find(room, 'MORDRED')).toBeDefined();
+        expect(find(room, 'OBERON')).toBeUndefined();
+    });
+
+    it('hides Mordred from Merlin and Oberon from the other spies', async () => {
+        const room = await startGame(['mordred-oberon', 'merlin-assassin']);
+        const spyIds = (filter: (role?: string | null) => boolean) =>
+            room.players.filter(p => p.role === 'SPY' && filter(p.specialRole)).map(p => p.id).sort();
+
+        expect(await spiesSeenBy(room, find(room, 'MERLIN').playerId)).toEqual(spyIds(r => r !== 'MORDRED'));
+        expect(await spiesSeenBy(room, find(room, 'ASSASSIN').playerId)).toEqual(spyIds(r => r !== 'OBERON'));
+        expect(await spiesSeenBy(room, find(room, 'MORDRED').playerId)).toEqual(spyIds(r => r !== 'OBERON'));
+        expect(await spiesSeenBy(room, find(room, 'OBERON').playerId)).toBeUndefined();
+    });
+
+    it('lets blind-spies hide every spy from the spies while Merlin keeps his view', async () => {
+        const room = await startGame(['merlin-assassin', 'mordred-oberon', 'blind-spies']);
+        for (const role of ['ASSASSIN', 'MORDRED', 'OBERON']) {
+            expect(await spiesSeenBy(room, find(room, role).playerId)).toBeUndefined();
+        }
+        expect(await spiesSeenBy(room, find(room, 'MERLIN').playerId)).not.toContain(find(room, 'MORDRED').id);
+    });
+
+    it('leaks no role through public player data', async () => {
+        const room = await startGame(['merlin-assassin', 'mordred-oberon']);
+        const resistance = room.players.find(p => p.role === 'RESISTANCE' && !p.specialRole)!;
+        const state: any = await room.getGameState(resistance.playerId);
+
+        expect(state.spies).toBeUndefined();
+        expect(JSON.stringify(state.players)).not.toMatch(/SPY|MORDRED|OBERON/);
+        expect(JSON.stringify(state.currentLeader)).not.toMatch(/role/i);
+        expect(JSON.stringify(room.getPublicPlayers())).not.toMatch(/role/i);
+        expect(JSON.stringify(await room.getSpectatorState())).not.toMatch(/MORDRED|OBERON|"SPY"/);
+    });
+});
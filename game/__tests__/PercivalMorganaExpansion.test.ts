@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { GameManager } from '../GameManager';
+
+async function startGame(expansions: string[], seed = 'avalon') {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, expansions, undefined, seed);
+    for (let i = 0; i < 7; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+const withRole = (room: Awaited<ReturnType<typeof startGame>>, specialRole: string) =>
+    room.players.filter(p => p.specialRole === specialRole);
+
+describe('PercivalMorganaExpansion', () => {
+    it('assigns Percival to the resistance and Morgana to the spies', async () => {
+        const room = await startGame(['percival-morgana']);
+
+        expect(withRole(room, 'PERCIVAL')).toHaveLength(1);
+        expect(withRole(room, 'PERCIVAL')[0].role).toBe('RESISTANCE');
+        expect(withRole(room, 'MORGANA')).toHaveLength(1);
+        expect(withRole(room, 'MORGANA')[0].role).toBe('SPY');
+    });
+
+    it('never overwrites Merlin or the Assassin, whatever the install order', async () => {
+        for (const expansions of [
+            ['merlin-assassin', 'percival-morgana'],
+            ['percival-morgana', 'merlin-assassin'],
+        ]) {
+            for (const seed of ['a', 'b', 'c', 'd']) {
+                const room = await startGame(expansions, seed);
+                ['MERLIN', 'ASSASSIN', 'PERCIVAL', 'MORGANA'].forEach(role => {
+                    expect(withRole(room, role)).toHaveLength(1);
+                });
+            }
+        }
+    });
+
+    it('shows Percival Merlin and Morgana as indistinguishable candidates', async () => {
+        const room = await startGame(['merlin-assassin', 'percival-morgana']);
+        const percival = withRole(room, 'PERCIVAL')[0];
+        const merlin = withRole(room, 'MERLIN')[0];
+        const morgana = withRole(room, 'MORGANA')[0];
+
+        const state: any = await room.getGameState(percival.playerId);
+        expect(state.merlinCandidates).toHaveLength(2);
+        expect(state.merlinCandidates.map((c: any) => c.id).sort()).toEqual([merlin.id, morgana.id].sort());
+        state.merlinCandidates.forEach((c: any) => expect(Object.keys(c)).toEqual(['id', 'nickname']));
+
+        // Only Percival gets the candidates; Merlin still sees Morgana among the spies
+        const merlinState: any = await room.getGameState(merlin.playerId);
+        expect(merlinState.merlinCandidates).toBeUndefined();
+        expect(merlinState.spies.map((s: any) => s.id)).toContain(morgana.id);
+    });
+
+    it('composes with blind-spies', async () => {
+        const room = await startGame(['merlin-assassin', 'percival-morgana', 'blind-spies']);
+        const morganaState: any = await room.getGameState(withRole(room, 'MORGANA')[0].playerId);
+        expect(morganaState.spies).toBeUndefined();
+
+        const percivalState: any = await room.getGameState(withRole(room, 'PERCIVAL')[0].playerId);
+        expect(percivalState.merlinCandidates).toHaveLength(2);
+
+        const spectatorState: any = await room.getSpectatorState();
+        expect(spectatorState.merlinCandidates).toBeUndefined();
+    });
+});
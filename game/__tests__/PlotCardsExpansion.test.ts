@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { replayRoom } from '../events/replay';
+import { getPublicEvents } from '../events/publicLog';
+import { getReplayPage } from '../events/timeline';
+import { PlotCardsExpansion, PlotCardType } from '../expansions/plot-cards';
+
+async function startGame(players = 7) {
+    const gm = new GameManager();
+    const room = gm.createRoom(5, ['plot-cards'], undefined, 'plot');
+    for (let i = 0; i < players; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    return room;
+}
+
+// Registers the expansion's handlers on a fake socket for `socketId`
+function connect(room: Room, socketId: string) {
+    const handlers: Record<string, Function> = {};
+    const socket = { id: socketId, on: (event: string, handler: Function) => (handlers[event] = handler), emit: vi.fn() };
+    const io = { to: () => ({ emit: vi.fn() }) };
+    PlotCardsExpansion.registerSocketHandlers!(socket, room, io);
+    return { socket, handlers };
+}
+
+// Puts a card straight into a player's hand
+function hand(room: Room, player: { playerId: string }, type: PlotCardType) {
+    const state = (room as any).plotCardsState;
+    const card = { id: `test-${type}`, type };
+    (state.hands[player.playerId] = state.hands[player.playerId] || []).push(card);
+    return card;
+}
+
+const leaderOf = (room: Room) => room.players[room.currentLeaderIndex];
+const notLeader = (room: Room, offset = 1) => room.players[(room.currentLeaderIndex + offset) % room.players.length];
+
+function approveTeam(room: Room, team: string[]) {
+    room.selectTeam(team);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    return room.tallyVotes();
+}
+
+describe('PlotCardsExpansion', () => {
+    it('lets the leader give out the cards drawn for the mission', async () => {
+        const room = await startGame(7);
+        const state = (room as any).plotCardsState;
+        expect(state.pending).toHaveLength(2);
+        expect(state.deck).toHaveLength(10);
+
+        const target = notLeader(room);
+        const { socket, handlers } = connect(room, leaderOf(room).id);
+        handlers['plot:give']({ cardId: state.pending[0].id, targetId: target.id });
+        expect(state.hands[target.playerId]).toHaveLength(1);
+        expect(state.pending).toHaveLength(1);
+
+        // The leader cannot keep a card, and what was not given is dealt with the team proposal
+        handlers['plot:give']({ cardId: state.pending[0].id, targetId: leaderOf(room).id });
+        expect(socket.emit).toHaveBeenCalledWith('error', { message: 'Give the card to another player' });
+        room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+        expect(state.pending).toEqual([]);
+        expect(state.hands[leaderOf(room).playerId] || []).toEqual([]);
+    });
+
+    it('Strong Leader takes the leadership before a team is proposed', async () => {
+        const room = await startGame();
+        const player = notLeader(room, 2);
+        const card = hand(room, player, 'STRONG_LEADER');
+
+        connect(room, player.id).handlers['plot:play']({ cardId: card.id });
+        expect(leaderOf(room).playerId).toBe(player.playerId);
+        expect(room.players.filter(p => p.isLeader)).toEqual([player]);
+    });
+
+    it('No Confidence rejects a team the vote approved', async () => {
+        const room = await startGame();
+        const player = notLeader(room);
+        const card = hand(room, player, 'NO_CONFIDENCE');
+        const rejections = room.voteRejections;
+
+        room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+        connect(room, player.id).handlers['plot:play']({ cardId: card.id });
+        room.players.forEach(p => room.submitVote(p.id, true));
+        const result = room.tallyVotes();
+
+        expect(result.approved).toBe(false);
+        expect(room.voteRejections).toBe(rejections + 1);
+        expect(room.phase).toBe('TEAM_SELECTION');
+        expect((room as any).plotCardsState.noConfidence).toBeNull();
+    });
+
+    it('Opinion Maker reveals the holder\'s vote to everyone', async () => {
+        const room = await startGame();
+        const player = notLeader(room);
+        hand(room, player, 'OPINION_MAKER');
+
+        room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+        room.submitVote(player.id, false);
+
+        const state: any = await room.getGameState(room.players[0].playerId);
+        expect(state.plotCards.revealed).toEqual([{ card: 'OPINION_MAKER', target: player.id, missionIndex: 0, value: false }]);
+        expect(state.plotCards.hands[player.id].map((c: any) => c.type)).not.toContain('OPINION_MAKER');
+    });
+
+    it('reveals mission cards publicly (In the Spotlight) or privately (Keeping a Close Eye on You)', async () => {
+        const room = await startGame();
+        const team = room.players.slice(0, room.getCurrentMissionSize());
+        const watcher = room.players[room.players.length - 1];
+        const spotlight = hand(room, watcher, 'IN_THE_SPOTLIGHT');
+        const closeEye = hand(room, watcher, 'KEEPING_A_CLOSE_EYE_ON_YOU');
+        approveTeam(room, team.map(p => p.id));
+
+        const { handlers } = connect(room, watcher.id);
+        handlers['plot:play']({ cardId: spotlight.id, targetId: team[0].id });
+        handlers['plot:play']({ cardId: closeEye.id, targetId: team[1].id });
+        room.submitMissionAction(team[0].id, true);
+        room.submitMissionAction(team[1].id, true);
+
+        const watcherState: any = await room.getGameState(watcher.playerId);
+        expect(watcherState.plotCards.revealed).toEqual([{ card: 'IN_THE_SPOTLIGHT', target: team[0].id, missionIndex: 0, value: true }]);
+        expect(watcherState.plotCards.mySecrets).toEqual([{ card: 'KEEPING_A_CLOSE_EYE_ON_YOU', targetId: team[1].id, value: true }]);
+
+        const otherState: any = await room.getGameState(team[0].playerId);
+        expect(otherState.plotCards.mySecrets).toEqual([]);
+        expect(JSON.stringify(await room.getSpectatorState())).not.toMatch(/mySecrets/);
+
+        // The watched card stays out of the public log, even after the game; replay still restores it
+        room.phase = 'GAME_OVER';
+        const reveals = getPublicEvents(room.events).filter(e => e.type === 'expansion:action' && e.payload.action === 'reveal');
+        expect(reveals.map(e => (e.payload as any).data.card)).toEqual(['IN_THE_SPOTLIGHT', 'KEEPING_A_CLOSE_EYE_ON_YOU']);
+        expect((reveals[1].payload as any).data).not.toHaveProperty('missionCard');
+        const actions = getReplayPage(room, 1, 5).rounds.flatMap(r => r.expansionActions);
+        expect(JSON.stringify(actions)).not.toMatch(/missionCard/);
+        expect((replayRoom(room.events) as any).plotCardsState.secrets).toEqual((room as any).plotCardsState.secrets);
+    });
+
+    it('Overheard Conversation only reaches a neighbour', async () => {
+        const room = await startGame();
+        const [first, second, third] = room.players;
+        const card = hand(room, first, 'OVERHEARD_CONVERSATION');
+
+        const { socket, handlers } = connect(room, first.id);
+        handlers['plot:play']({ cardId: card.id, targetId: third.id });
+        expect(socket.emit).toHaveBeenCalledWith('error', { message: 'Choose a player sitting next to you' });
+
+        handlers['plot:play']({ cardId: card.id, targetId: second.id });
+        const state: any = await room.getGameState(first.playerId);
+        expect(state.plotCards.mySecrets).toEqual([{ card: 'OVERHEARD_CONVERSATION', targetId: second.id, value: second.role }]);
+    });
+
+    it('rebuilds the card state from the game log', async () => {
+        const room = await startGame(9);
+        const state = (room as any).plotCardsState;
+        connect(room, leaderOf(room).id).handlers['plot:give']({ cardId: state.pending[0].id, targetId: notLeader(room).id });
+
+        const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+        approveTeam(room, team);
+        team.forEach(id => room.submitMissionAction(id, true));
+        await room.resolveMission();
+
+        const replayed: any = replayRoom(room.events);
+        expect(replayed.plotCardsState).toEqual(state);
+        expect(state.pending).toHaveLength(3);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { GameManager } from '../GameManager';
+import { Room } from '../Room';
+import { getReplayPage } from '../events/timeline';
+
+async function setupRoom(expansions: string[] = []) {
+  const gm = new GameManager();
+  const room = gm.createRoom(5, expansions);
+  for (let i = 0; i < 5; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  await room.startGame();
+  return room;
+}
+
+function propose(room: Room, approve: boolean) {
+  const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+  room.selectTeam(team);
+  room.players.forEach((p, i) => room.submitVote(p.id, i === 0 ? !approve : approve));
+  room.tallyVotes();
+  return team;
+}
+
+async function playMission(room: Room, fails: number) {
+  const team = propose(room, true);
+  team.forEach((id, i) => room.submitMissionAction(id, i >= fails));
+  await room.resolveMission();
+}
+
+describe('Replay timeline', () => {
+  it('groups proposals, revealed votes and mission cards per round', async () => {
+    const room = await setupRoom();
+    const firstLeader = room.players[room.currentLeaderIndex].nickname;
+
+    propose(room, false);
+    await playMission(room, 1);
+
+    const page = getReplayPage(room);
+    expect(page.totalRounds).toBe(1);
+    const [round] = page.rounds;
+    expect(round.round).toBe(1);
+    expect(round.proposals).toHaveLength(2);
+
+    const rejected = round.proposals[0];
+    expect(rejected.leaderId).toBe(firstLeader);
+    expect(rejected.approved).toBe(false);
+    // Keyed by nickname while the game is running
+    expect(rejected.votes).toEqual({ Player0: true, Player1: false, Player2: false, Player3: false, Player4: false });
+
+    // Leadership rotated after the rejection
+    expect(round.proposals[1].leaderId).not.toBe(firstLeader);
+    expect(round.mission).toEqual({
+      team: ['Player0', 'Player1'],
+      success: false,
+      failCount: 1,
+      failsRequired: 1,
+      successCount: 1,
+    });
+  });
+
+  it('hides roles until the game is over', async () => {
+    const room = await setupRoom();
+    await playMission(room, 0);
+
+    const during = getReplayPage(room);
+    expect(during.gameOver).toBe(false);
+    // No playerIds either: they would let anyone with the room code take a seat over
+    expect(JSON.stringify(during)).not.toMatch(/uuid-/);
+    during.players.forEach(p => {
+      expect(p.role).toBeUndefined();
+      expect(p.specialRole).toBeUndefined();
+    });
+
+    await playMission(room, 0);
+    await playMission(room, 0);
+    expect(room.phase).toBe('GAME_OVER');
+
+    const after = getReplayPage(room);
+    expect(after.winner).toBe('RESISTANCE');
+    after.players.forEach(p => expect(p.role).toBeDefined());
+    // Still keyed by nickname: the room can be restarted with the same seats
+    expect(JSON.stringify(after)).not.toMatch(/uuid-/);
+    expect(after.rounds[0].mission!.team).toEqual(['Player0', 'Player1']);
+  });
+
+  it('paginates rounds so clients can step through the game', async () => {
+    const room = await setupRoom();
+    await playMission(room, 0);
+    await playMission(room, 1);
+    await playMission(room, 0);
+
+    const first = getReplayPage(room, 1, 1);
+    expect(first.totalRounds).toBe(3);
+    expect(first.totalPages).toBe(3);
+    expect(first.rounds.map(r => r.round)).toEqual([1]);
+
+    const second = getReplayPage(room, 2, 2);
+    expect(second.totalPages).toBe(2);
+    expect(second.rounds.map(r => r.round)).toEqual([3]);
+
+    // Out of range values are clamped
+    expect(getReplayPage(room, 99, 1).page).toBe(3);
+    expect(getReplayPage(room, 0, 0).pageSize).toBe(1);
+  });
+
+  it('attaches expansion actions to the mission they followed and reveals them post-game', async () => {
+    const room = await setupRoom(['inquisidor']);
+    await playMission(room, 0);
+
+    const [investigator, target] = room.players;
+    room.recordEvent('expansion:action', {
+      expansionId: 'inquisidor',
+      action: 'investigate',
+      actorId: investigator.playerId,
+      targetId: target.playerId,
+      data: { role: target.role, specialRole: null },
+    });
+
+    const during = getReplayPage(room, 1, 5);
+    const actions = during.rounds[0].expansionActions;
+    // token-assigned at game start, then the investigation after mission 1
+    expect(actions.map(a => a.action)).toEqual(['token-assigned', 'investigate']);
+    expect(actions[1].data).toBeUndefined();
+    expect(actions[1]).toMatchObject({ actorId: investigator.nickname, targetId: target.nickname });
+    expect(during.totalRounds).toBe(1);
+
+    room.recordEvent('expansion:action', {
+      expansionId: 'merlin-assassin',
+      action: 'assassinate',
+      actorId: investigator.playerId,
+      targetId: target.playerId,
+      data: { success: true, merlinId: target.playerId },
+    });
+    room.phase = 'GAME_OVER';
+    const after = getReplayPage(room, 1, 5);
+    expect(after.rounds[0].expansionActions[1].data).toEqual({ role: target.role, specialRole: null });
+    // Players named in expansion data are shown by nickname too
+    expect(after.rounds[0].expansionActions[2].data).toEqual({ success: true, merlinId: target.nickname });
+  });
+
+  it('only covers the latest game after a restart', async () => {
+    const room = await setupRoom();
+    await playMission(room, 0);
+    await room.resetGame();
+
+    expect(getReplayPage(room).totalRounds).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Rng } from '../rng/Rng';
+import { GameManager } from '../GameManager';
+
+async function startSeededGame(seed: string, expansions: string[] = []) {
+  const gm = new GameManager();
+  const room = gm.createRoom(5, expansions, undefined, seed);
+  for (let i = 0; i < 7; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  await room.startGame();
+  return room;
+}
+
+describe('Rng', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = new Rng('bug-report-42');
+    const b = new Rng('bug-report-42');
+    const seqA = Array.from({ length: 20 }, () => a.next());
+    const seqB = Array.from({ length: 20 }, () => b.next());
+    expect(seqA).toEqual(seqB);
+    seqA.forEach(n => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+
+    expect(new Rng('other').next()).not.toBe(new Rng('bug-report-42').next());
+  });
+
+  it('generates a seed when none is given and records it', () => {
+    const rng = new Rng();
+    expect(rng.seed).toMatch(/^[0-9a-f]{16}$/);
+    expect(new Rng(123).seed).toBe('123');
+  });
+
+  it('shuffles without bias (every permutation roughly equally likely)', () => {
+    const rng = new Rng('fisher-yates');
+    const counts: Record<string, number> = {};
+    const runs = 60000;
+    for (let i = 0; i < runs; i++) {
+      const key = rng.shuffle(['a', 'b', 'c']).join('');
+      counts[key] = (counts[key] || 0) + 1;
+    }
+
+    expect(Object.keys(counts)).toHaveLength(6);
+    Object.values(counts).forEach(count => {
+      expect(Math.abs(count - runs / 6)).toBeLessThan(runs / 6 * 0.05);
+    });
+  });
+
+  it('shuffle returns a new array with the same items', () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = new Rng('x').shuffle(items);
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+
+  it('can resume from a saved state', () => {
+    const rng = new Rng('resume');
+    rng.next();
+    const resumed = new Rng('resume');
+    resumed.setState(rng.getState());
+    expect(resumed.next()).toBe(rng.next());
+  });
+});
+
+describe('Seeded rooms', () => {
+  it('reproduces roles, special roles and leader from the seed', async () => {
+    const a = await startSeededGame('table-7', ['merlin-assassin', 'inquisidor']);
+    const b = await startSeededGame('table-7', ['merlin-assassin', 'inquisidor']);
+
+    const summary = (room: typeof a) => ({
+      roles: room.players.map(p => [p.role, p.specialRole]),
+      leader: room.currentLeaderIndex,
+      token: (room as any).inquisitorState.tokenHolder,
+    });
+    expect(summary(a)).toEqual(summary(b));
+  });
+
+  it('records the seed in the game log and in snapshots', async () => {
+    const room = await startSeededGame('reported-bug');
+    const created = room.events[0];
+    expect(created.type).toBe('room:created');
+    expect(created.payload).toMatchObject({ seed: 'reported-bug' });
+
+    const snapshot = room.toSnapshot();
+    expect(snapshot.seed).toBe('reported-bug');
+    expect(snapshot.rngState).toBe(room.rng.getState());
+  });
+});
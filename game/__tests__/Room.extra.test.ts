@@ -63,19 +63,15 @@ describe('Room extra behaviors', () => {
     expect(['TEAM_SELECTION','GAME_OVER']).toContain(room.phase)
   })
 
-  it('handleAssassination finds merlin and returns outcome', () => {
+  it('endGame ends the game and records the winner', () => {
     const room = new Room('R4', 3)
     room.addPlayer('s1', 'p1')
     room.addPlayer('s2', 'p2')
     room.addPlayer('s3', 'p3')
 
-    // assign merlin to s2
-    const p2 = room.getPlayer('s2')!
-    p2.specialRole = 'MERLIN'
-
-    const out = room.handleAssassination('s2')
-    expect(out.success).toBe(true)
-    expect(out.merlinId).toBe('s2')
+    expect(room.endGame('RESISTANCE')).toBe('RESISTANCE')
     expect(room.phase).toBe('GAME_OVER')
+    expect(room.getWinner()).toBe('RESISTANCE')
+    expect(room.events[room.events.length - 1]).toMatchObject({ type: 'game:ended', payload: { winner: 'RESISTANCE' } })
   })
 })
@@ -23,14 +23,14 @@ describe('Room.resetGame', () => {
         room.currentMissionIndex = 3;
         room.voteRejections = 2;
         room.missionHistory = [
-            { success: true, failCount: 0 },
-            { success: true, failCount: 0 },
-            { success: false, failCount: 1 }
+            { success: true, failCount: 0, failsRequired: 1 },
+            { success: true, failCount: 0, failsRequired: 1 },
+            { success: false, failCount: 1, failsRequired: 1 }
         ];
         room.selectedTeam = ['p1', 'p2'];
         room.votes.set('p1', true);
         room.missionActions.set('p1', true);
-        room.assassinationTarget = 'p3';
+        room.winner = 'SPY';
 
         // Verify state is "dirty"
         expect(room.succeededMissions).toBe(2);
@@ -44,11 +44,11 @@ describe('Room.resetGame', () => {
         expect(room.failedMissions).toBe(0);
         expect(room.currentMissionIndex).toBe(0);
         expect(room.voteRejections).toBe(0);
-        expect(room.missionHistory).toEqual([]);
+        expect(room.missionHistory).toEqual([null, null, null, null, null]);
         expect(room.selectedTeam).toEqual([]);
         expect(room.votes.size).toBe(0);
         expect(room.missionActions.size).toBe(0);
-        expect(room.assassinationTarget).toBeNull();
+        expect(room.winner).toBeNull();
 
         // Phase should be TEAM_SELECTION (as startGame was called internally)
         expect(room.phase).toBe('TEAM_SELECTION');
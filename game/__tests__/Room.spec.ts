@@ -136,31 +136,39 @@ describe('Room core behaviors', () => {
     expect((state as any).__custom).toBe('hello');
   });
 
-  it('handleAssassination and getWinner logic', () => {
-    const { room } = createRoomWithPlayers(3);
-    // Assign special roles
-    const p1 = room.getPlayer('s1')!;
-    const p2 = room.getPlayer('s2')!;
-    p1.specialRole = 'MERLIN';
-    p2.specialRole = 'ASSASSIN';
-
-    // Wrong guess
-    const miss = room.handleAssassination('s3');
-    expect(miss.success).toBe(false);
+  it('endGame lets a game:end hook override the winner', () => {
+    const { room, hookManager } = createRoomWithPlayers(3);
+    hookManager.register('game:end', (ctx) => ({ ...ctx, winner: 'SPY' }));
+
+    expect(room.endGame('RESISTANCE')).toBe('SPY');
     expect(room.phase).toBe('GAME_OVER');
-    // getWinner should consider assassinationTarget and merlin (miss => no immediate spy win)
-    expect(room.getWinner()).toBeNull();
+    expect(room.getWinner()).toBe('SPY');
 
-    // Reset and test merlin death path
+    // Without a hook the given winner stands
     const { room: room2 } = createRoomWithPlayers(3);
-    const rp1 = room2.getPlayer('s1')!;
-    const rp2 = room2.getPlayer('s2')!;
-    rp1.specialRole = 'MERLIN';
-    rp2.specialRole = 'ASSASSIN';
-    // Assassin selects the merlin
-    const hit = room2.handleAssassination(rp1.id);
-    expect(hit.success).toBe(true);
-    expect(room2.getWinner()).toBe('SPY');
+    room2.endGame('RESISTANCE');
+    expect(room2.getWinner()).toBe('RESISTANCE');
+  });
+
+  it('ignores hook phases that no expansion of the room registered', async () => {
+    const { room, hookManager } = createRoomWithPlayers(3);
+    hookManager.register('mission:resolve', (ctx) => ({ ...ctx, nextPhase: 'ASSASSINATION' }));
+    room.phase = 'MISSION';
+    room.selectedTeam = ['p1', 'p2'];
+    room.submitMissionAction('s1', true);
+    room.submitMissionAction('s2', true);
+
+    await room.resolveMission();
+    expect(room.phase).toBe('TEAM_SELECTION');
+    expect(room.getPhases()).not.toContain('ASSASSINATION');
+  });
+
+  it('has no assassination state without the merlin-assassin expansion', async () => {
+    const { room } = createRoomWithPlayers(5, 5);
+    await room.startGame();
+    const state: any = await room.getGameState('p1');
+    expect(state).not.toHaveProperty('assassinId');
+    expect(state).not.toHaveProperty('assassinationTarget');
   });
 
   it('getWinner returns correct results for mission counts when game over', () => {
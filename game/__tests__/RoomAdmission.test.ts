@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { Room } from "../Room";
+
+function makeRoom(count = 3) {
+    const room = new Room("admission", 1, [], undefined, "admission");
+    for (let i = 0; i < count; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    return room;
+}
+
+describe("Room - Join admission", () => {
+    it("admits new players into an open lobby", () => {
+        expect(makeRoom().checkAdmission("Newcomer")).toBeNull();
+    });
+
+    it("refuses new players once the room is full", () => {
+        const room = makeRoom();
+        room.maxPlayers = 3;
+        expect(room.isFull()).toBe(true);
+        expect(room.checkAdmission("Newcomer")?.code).toBe("ROOM_FULL");
+        expect(() => room.addPlayer("socket-9", "Newcomer")).toThrow();
+    });
+
+    it("refuses new players mid-game but lets seated players rejoin", async () => {
+        const room = makeRoom();
+        await room.startGame();
+        expect(room.checkAdmission("Newcomer")?.code).toBe("GAME_IN_PROGRESS");
+        expect(room.checkAdmission("Player1", undefined, "uuid-1")).toBeNull();
+    });
+
+    it("keeps nicknames unique (ignoring case and spaces)", () => {
+        const room = makeRoom();
+        expect(room.checkAdmission(" player1 ")?.code).toBe("NICKNAME_TAKEN");
+    });
+
+    it("requires the password of a locked room", () => {
+        const room = makeRoom();
+        room.password = "secret";
+        expect(room.checkAdmission("Newcomer")?.code).toBe("WRONG_PASSWORD");
+        expect(room.checkAdmission("Newcomer", "wrong")?.code).toBe("WRONG_PASSWORD");
+        expect(room.checkAdmission("Newcomer", "secret")).toBeNull();
+        // Spectators need it too
+        expect(room.checkPassword()?.code).toBe("WRONG_PASSWORD");
+        expect(room.checkPassword("secret")).toBeNull();
+        expect(Room.fromSnapshot(room.toSnapshot()).password).toBe("secret");
+    });
+
+    it("reports the lock, not the password, in the game state", async () => {
+        const room = makeRoom();
+        room.password = "secret";
+        const state: any = await room.getGameState("uuid-0");
+        expect(state.locked).toBe(true);
+        expect(JSON.stringify(state)).not.toContain("secret");
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Room } from '../Room';
+import { HookManager } from '../hooks/HookManager';
+
+describe('Room hooks', () => {
+  let hookManager: HookManager;
+  let room: Room;
+
+  beforeEach(async () => {
+    hookManager = new HookManager();
+    room = new Room('hooks', 5, [], hookManager, 'hooks');
+    for (let i = 0; i < 5; i++) {
+      room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+  });
+
+  const proposeTeam = () => room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+
+  it('player:join can refuse a player', () => {
+    const room = new Room('join', 5, [], hookManager);
+    hookManager.register('player:join', (ctx) => ({ ...ctx, cancel: ctx.nickname === 'Mallory', reason: 'Banned' }));
+
+    expect(room.checkAdmission('Mallory')).toEqual({ code: 'REFUSED', message: 'Banned' });
+    expect(room.checkAdmission('Alice')).toBeNull();
+  });
+
+  it('player:disconnect can keep the seat', () => {
+    hookManager.register('player:disconnect', (ctx) => ({ ...ctx, cancel: ctx.playerId === 'uuid-1' }));
+
+    expect(room.handleDisconnect('socket-0')).toBe(true);
+    expect(room.handleDisconnect('socket-1')).toBe(false);
+    expect(room.handleDisconnect('unknown')).toBe(false);
+  });
+
+  it('team:select can refuse a proposal', async () => {
+    await room.startGame();
+    let seen: any = null;
+    hookManager.register('team:select', (ctx) => {
+      seen = { team: ctx.team, missionIndex: ctx.missionIndex };
+      return { ...ctx, cancel: true };
+    });
+
+    expect(proposeTeam()).toBe(false);
+    expect(seen).toEqual({ team: ['uuid-0', 'uuid-1'], missionIndex: 0 });
+    expect(room.phase).toBe('TEAM_SELECTION');
+    expect(room.selectedTeam).toEqual([]);
+    expect(room.events.some(e => e.type === 'team:selected')).toBe(false);
+  });
+
+  it('vote:submit can refuse or change a vote', async () => {
+    await room.startGame();
+    proposeTeam();
+    hookManager.register('vote:submit', (ctx) => {
+      if (ctx.playerId === 'uuid-0') return { ...ctx, cancel: true };
+      return { ...ctx, vote: true };
+    });
+
+    expect(room.submitVote('socket-0', true)).toBe(false);
+    expect(room.submitVote('socket-1', false)).toBe(true);
+    expect(room.votes.has('uuid-0')).toBe(false);
+    expect(room.votes.get('uuid-1')).toBe(true);
+  });
+
+  it('vote:tally can overturn the result', async () => {
+    await room.startGame();
+    proposeTeam();
+    hookManager.register('vote:tally', (ctx) => ({ ...ctx, result: { ...ctx.result, approved: false } }));
+    room.players.forEach(p => room.submitVote(p.id, true));
+
+    expect(room.tallyVotes().approved).toBe(false);
+    expect(room.phase).toBe('TEAM_SELECTION');
+  });
+
+  it('mission:submit can refuse or change a card', async () => {
+    await room.startGame();
+    proposeTeam();
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    hookManager.register('mission:submit', (ctx) => {
+      if (ctx.playerId === 'uuid-0') return { ...ctx, cancel: true };
+      return { ...ctx, success: false };
+    });
+
+    expect(room.submitMissionAction('socket-0', true)).toBe(false);
+    expect(room.submitMissionAction('socket-1', true)).toBe(true);
+    expect(room.missionActions.has('uuid-0')).toBe(false);
+    expect(room.missionActions.get('uuid-1')).toBe(false);
+  });
+
+  it('game:end can change the winner', async () => {
+    await room.startGame();
+    hookManager.register('game:end', (ctx) => ({ ...ctx, winner: 'RESISTANCE' }));
+    room.voteRejections = room.rules.rejectionLimit - 1;
+    proposeTeam();
+    room.players.forEach(p => room.submitVote(p.id, false));
+    room.tallyVotes();
+
+    expect(room.phase).toBe('GAME_OVER');
+    expect(room.getWinner()).toBe('RESISTANCE');
+  });
+});
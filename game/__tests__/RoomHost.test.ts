@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { Room } from "../Room";
+import { replayRoom } from "../events/replay";
+
+function makeRoom(count = 3) {
+    const room = new Room("host", 1, [], undefined, "host");
+    for (let i = 0; i < count; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    return room;
+}
+
+describe("Room - Host", () => {
+    it("makes the creator the host", async () => {
+        const room = makeRoom();
+        expect(room.hostId).toBe("uuid-0");
+        expect(room.isHost("socket-0")).toBe(true);
+        expect(room.isHost("socket-1")).toBe(false);
+
+        const state: any = await room.getGameState("uuid-1");
+        expect(state.hostId).toBe("uuid-0");
+        expect(state.isHost).toBe(false);
+    });
+
+    it("transfers hosting on request", () => {
+        const room = makeRoom();
+        expect(room.transferHost("uuid-2")).toBe(true);
+        expect(room.getHost()?.nickname).toBe("Player2");
+        expect(room.transferHost("uuid-2")).toBe(false);
+        expect(room.transferHost("nobody")).toBe(false);
+    });
+
+    it("passes hosting on when the host leaves", () => {
+        const room = makeRoom();
+        room.removePlayer("socket-0");
+        expect(room.hostId).toBe("uuid-1");
+
+        room.removePlayer("socket-1");
+        room.removePlayer("socket-2");
+        expect(room.hostId).toBeNull();
+    });
+
+    it("kicks players only in the lobby and never the host", async () => {
+        const room = makeRoom();
+        expect(room.kickPlayer("uuid-0")).toBeNull();
+        expect(room.kickPlayer("uuid-1")?.nickname).toBe("Player1");
+        expect(room.players).toHaveLength(2);
+        expect(room.events.find(e => e.type === "player:left")?.payload).toEqual({ playerId: "uuid-1", kicked: true });
+
+        await room.startGame();
+        expect(room.kickPlayer("uuid-2")).toBeNull();
+    });
+
+    it("refuses kicked players who try to join again", () => {
+        const room = makeRoom();
+        room.kickPlayer("uuid-1");
+
+        expect(room.checkAdmission("Player1")?.code).toBe("KICKED");
+        expect(room.checkAdmission(" player1 ")?.code).toBe("KICKED");
+        expect(room.checkAdmission("Someone else", undefined, "uuid-1")?.code).toBe("KICKED");
+        expect(room.checkAdmission("Someone else")).toBeNull();
+
+        expect(Room.fromSnapshot(room.toSnapshot()).checkAdmission("Player1")?.code).toBe("KICKED");
+        expect(replayRoom(room.events).checkAdmission("Player1")?.code).toBe("KICKED");
+    });
+
+    it("keeps the host across snapshots and replays", () => {
+        const room = makeRoom();
+        room.transferHost("uuid-1");
+        expect(Room.fromSnapshot(room.toSnapshot()).hostId).toBe("uuid-1");
+        expect(replayRoom(room.events).hostId).toBe("uuid-1");
+    });
+});
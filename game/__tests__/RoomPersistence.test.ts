@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GameManager } from '../GameManager';
+import { JsonFileRoomStore } from '../persistence/JsonFileRoomStore';
+import { SqliteRoomStore } from '../persistence/SqliteRoomStore';
+import { RoomStore } from '../persistence/types';
+
+async function playFirstMission(gm: GameManager, store: RoomStore) {
+  const room = gm.createRoom(5, ['merlin-assassin', 'inquisidor']);
+  for (let i = 0; i < 5; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  await room.startGame();
+
+  const team = room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id);
+  room.selectTeam(team);
+  room.players.forEach(p => room.submitVote(p.id, true));
+  room.tallyVotes();
+  team.forEach(id => room.submitMissionAction(id, true));
+  await room.resolveMission();
+
+  await gm.flush();
+  return room;
+}
+
+describe.each([
+  ['json', (dir: string) => new JsonFileRoomStore(path.join(dir, 'rooms'))],
+  ['sqlite', (dir: string) => new SqliteRoomStore(path.join(dir, 'rooms.db'))],
+])('Room persistence (%s store)', (_name, makeStore) => {
+  let dir: string;
+  let store: RoomStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'tr-rooms-'));
+    store = makeStore(dir);
+  });
+
+  afterEach(async () => {
+    await store.close?.();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('restores a mid-game room with its expansion state', async () => {
+    const original = await playFirstMission(new GameManager(store), store);
+    expect(original.phase).toBe('INQUISITOR_INVESTIGATION');
+
+    // Simulate a server restart: brand new manager reading the same store
+    const gm = new GameManager(store);
+    const [restored] = await gm.restoreRooms();
+
+    expect(restored.id).toBe(original.id);
+    expect(restored.phase).toBe('INQUISITOR_INVESTIGATION');
+    expect(restored.succeededMissions).toBe(1);
+    expect(restored.missionHistory).toEqual(original.missionHistory);
+    expect(restored.players.map(p => p.role)).toEqual(original.players.map(p => p.role));
+    expect(restored.players.map(p => p.specialRole)).toEqual(original.players.map(p => p.specialRole));
+    expect((restored as any).inquisitorState).toEqual((original as any).inquisitorState);
+
+    // Expansions are re-installed: the inquisidor state:sync hook still runs
+    const state: any = await restored.getGameState('uuid-0');
+    expect(state.inquisitorToken).toBeDefined();
+  });
+
+  it('reconnecting by playerId lands the player back in the same phase', async () => {
+    const original = await playFirstMission(new GameManager(store), store);
+
+    const gm = new GameManager(store);
+    await gm.restoreRooms();
+    const room = gm.getRoom(original.id)!;
+
+    expect(room.reconnectPlayer('uuid-2', 'new-socket')).toBe(true);
+    const state: any = await room.getGameState('uuid-2');
+    expect(state.phase).toBe(original.phase);
+    expect(state.player.id).toBe('new-socket');
+    await gm.flush();
+  });
+
+  it('persists changes made after restore and removes deleted rooms', async () => {
+    const gm = new GameManager(store);
+    const room = gm.createRoom(5, []);
+    room.addPlayer('s1', 'Alice', 'uuid-a');
+    await gm.flush();
+
+    const gm2 = new GameManager(store);
+    const [restored] = await gm2.restoreRooms();
+    restored.addPlayer('s2', 'Bob', 'uuid-b');
+    await gm2.flush();
+
+    const snapshots = await store.loadAll();
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].players.map(p => p.nickname)).toEqual(['Alice', 'Bob']);
+
+    gm2.removeRoom(room.id);
+    await gm2.flush();
+    expect(await store.loadAll()).toHaveLength(0);
+  });
+});
+
+describe('GameManager without a store', () => {
+  it('keeps rooms in memory only', async () => {
+    const gm = new GameManager();
+    gm.createRoom(5, []);
+    await gm.flush();
+    expect(await gm.restoreRooms()).toEqual([]);
+  });
+});
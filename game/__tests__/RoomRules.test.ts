@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { Room } from "../Room";
+import { DEFAULT_ROOM_RULES, validateRoomRules } from "../RoomRules";
+import { replayRoom } from "../events/replay";
+
+function makeRoom(count = 5) {
+    const room = new Room("rules", 5, [], undefined, "rules");
+    for (let i = 0; i < count; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    return room;
+}
+
+function rejectProposal(room: Room) {
+    room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+    room.players.forEach(p => room.submitVote(p.id, false));
+    return room.tallyVotes();
+}
+
+function approveProposal(room: Room) {
+    room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+    room.players.forEach(p => room.submitVote(p.id, true));
+    return room.tallyVotes();
+}
+
+describe("validateRoomRules", () => {
+    it("fills defaults and accepts valid overrides", () => {
+        const { rules, errors } = validateRoomRules({
+            spyCounts: { 5: 1 },
+            missionSizes: { 5: [2, 2, 3, 3, 3] },
+            rejectionLimit: 3,
+            cumulativeRejections: false,
+        });
+        expect(errors).toEqual([]);
+        expect(rules).toEqual({
+            ...DEFAULT_ROOM_RULES,
+            spyCounts: { 5: 1 },
+            missionSizes: { 5: [2, 2, 3, 3, 3] },
+            rejectionLimit: 3,
+            cumulativeRejections: false,
+        });
+        expect(validateRoomRules(undefined).rules).toEqual(DEFAULT_ROOM_RULES);
+    });
+
+    it("reports invalid values", () => {
+        const { errors } = validateRoomRules({
+            spyCounts: { 5: 5, 99: 1 },
+            missionSizes: { 5: [2, 2, 6, 3, 3], 6: [2, 3] },
+            rejectionLimit: 0,
+            cumulativeRejections: "yes",
+        });
+        expect(errors).toHaveLength(6);
+        expect(validateRoomRules("strict").errors).toHaveLength(1);
+    });
+
+    it("refuses missions smaller than their fail requirement", () => {
+        const sizes = { 7: [2, 3, 3, 1, 4] };
+        expect(validateRoomRules({ missionSizes: sizes }).errors).toHaveLength(1);
+        expect(validateRoomRules({ missionSizes: sizes, twoFailMissionRule: false }).errors).toEqual([]);
+
+        // Turning the rule back on is checked against the sizes already set
+        const base = validateRoomRules({ missionSizes: sizes, twoFailMissionRule: false }).rules;
+        expect(validateRoomRules({ twoFailMissionRule: true }, base).errors).toHaveLength(1);
+    });
+
+    it("merges edits onto the current rules", () => {
+        const base = validateRoomRules({ rejectionLimit: 3 }).rules;
+        const { rules } = validateRoomRules({ twoFailMissionRule: false }, base);
+        expect(rules.rejectionLimit).toBe(3);
+        expect(rules.twoFailMissionRule).toBe(false);
+    });
+});
+
+describe("Room rules", () => {
+    it("uses custom spy counts and mission sizes", async () => {
+        const room = makeRoom();
+        room.setRules(validateRoomRules({ spyCounts: { 5: 1 }, missionSizes: { 5: [3, 3, 3, 3, 3] } }).rules);
+        await room.startGame();
+
+        expect(room.players.filter(p => p.role === "SPY")).toHaveLength(1);
+        expect(room.getCurrentMissionSize()).toBe(3);
+    });
+
+    it("ends the game at the configured rejection limit", async () => {
+        const room = makeRoom();
+        room.setRules(validateRoomRules({ rejectionLimit: 2 }).rules);
+        await room.startGame();
+
+        expect(rejectProposal(room).penaltyApplied).toBe(false);
+        expect(rejectProposal(room).penaltyApplied).toBe(true);
+        expect(room.getWinner()).toBe("SPY");
+    });
+
+    it("resets rejections on approval when they are not cumulative", async () => {
+        const room = makeRoom();
+        room.setRules(validateRoomRules({ cumulativeRejections: false }).rules);
+        await room.startGame();
+
+        rejectProposal(room);
+        expect(room.voteRejections).toBe(1);
+        approveProposal(room);
+        expect(room.voteRejections).toBe(0);
+    });
+
+    it("can only change rules in the lobby", async () => {
+        const room = makeRoom();
+        await room.startGame();
+        expect(room.setRules(validateRoomRules({ rejectionLimit: 2 }).rules)).toBe(false);
+        expect(room.rules.rejectionLimit).toBe(DEFAULT_ROOM_RULES.rejectionLimit);
+    });
+
+    it("exposes the rules in the game state and keeps them across snapshots and replays", async () => {
+        const room = makeRoom();
+        room.setRules(validateRoomRules({ rejectionLimit: 4 }).rules);
+
+        const state: any = await room.getGameState("uuid-0");
+        expect(state.rules.rejectionLimit).toBe(4);
+        expect(Room.fromSnapshot(room.toSnapshot()).rules.rejectionLimit).toBe(4);
+        expect(replayRoom(room.events).rules.rejectionLimit).toBe(4);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameManager } from '../GameManager';
+import { SpectatorFeed, spectatorChannel, validateSpectatorDelay } from '../SpectatorFeed';
+
+async function startGame(gm: GameManager, expansions: string[] = []) {
+  const room = gm.createRoom(5, expansions, undefined, 'spectators');
+  for (let i = 0; i < 5; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  await room.startGame();
+  return room;
+}
+
+describe('Room spectators', () => {
+  it('keeps spectators out of the seats', async () => {
+    const room = await startGame(new GameManager());
+    const spectator = room.addSpectator('watch-1', 'Viewer', 'viewer-uuid');
+
+    expect(room.players).toHaveLength(5);
+    expect(room.spectators).toEqual([spectator]);
+
+    // A returning spectator moves to its new socket instead of being added twice
+    room.addSpectator('watch-2', 'Viewer', 'viewer-uuid');
+    expect(room.spectators).toHaveLength(1);
+    expect(room.getSpectator('watch-2')).toBeDefined();
+    // What other clients see of spectators leaves out the spectatorId they rejoin with
+    expect(room.getPublicSpectators()).toEqual([{ id: 'watch-2', nickname: 'Viewer' }]);
+
+    room.removeSpectator('watch-2');
+    expect(room.spectators).toEqual([]);
+  });
+
+  it('gives spectators a view without roles, spies or votes', async () => {
+    const room = await startGame(new GameManager(), ['merlin-assassin', 'inquisidor']);
+    room.selectTeam(['socket-0', 'socket-1']);
+    room.submitVote('socket-2', false);
+
+    const state: any = await room.getSpectatorState();
+    expect(state.spectator).toBe(true);
+    expect(state.phase).toBe('VOTE');
+    expect(state.votedPlayers).toEqual(['socket-2']);
+    expect(state.inquisitorToken).toBeDefined();
+
+    const json = JSON.stringify(state);
+    expect(json).not.toMatch(/"role"|"specialRole"|"myRole"|"spies"|"myVote"/);
+    expect(json).not.toMatch(/uuid-/);
+  });
+});
+
+describe('SpectatorFeed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('validates the delay', () => {
+    expect(validateSpectatorDelay(undefined)).toEqual({ delaySeconds: 0, errors: [] });
+    expect(validateSpectatorDelay(30).delaySeconds).toBe(30);
+    expect(validateSpectatorDelay(-1).errors).toHaveLength(1);
+    expect(validateSpectatorDelay('10').errors).toHaveLength(1);
+  });
+
+  it('relays room broadcasts to spectators without roles', async () => {
+    const sent: Array<[string, string, any]> = [];
+    const gm = new GameManager(undefined, undefined, new SpectatorFeed((...args) => sent.push(args)));
+    const room = await startGame(gm);
+
+    room.onBroadcast?.('player_joined', { players: room.players });
+    expect(sent).toEqual([]); // nobody is watching yet
+
+    room.addSpectator('watch-1', 'Viewer');
+    room.onBroadcast?.('player_joined', { players: room.players });
+    expect(sent).toHaveLength(1);
+    expect(sent[0][0]).toBe(spectatorChannel(room.id));
+    expect(sent[0][2].players[0]).toEqual({ id: 'socket-0', nickname: 'Player0', isLeader: room.players[0].isLeader });
+  });
+
+  it('never relays playerIds, which would let a spectator take a seat over', async () => {
+    const sent: Array<[string, string, any]> = [];
+    const gm = new GameManager(undefined, undefined, new SpectatorFeed((...args) => sent.push(args)));
+    const room = await startGame(gm);
+    room.addSpectator('watch-1', 'Viewer');
+
+    room.onBroadcast?.('host_changed', { hostId: room.hostId, players: room.getPublicPlayers() });
+    room.onBroadcast?.('team_selected', { selectedTeam: ['socket-0'], selectedTeamPlayerIds: ['uuid-0'] });
+    room.onBroadcast?.('vote_submitted', { playerId: 'socket-1' });
+
+    expect(JSON.stringify(sent)).not.toMatch(/uuid-/);
+    expect(sent[1][2]).toEqual({ selectedTeam: ['socket-0'] });
+    // Socket ids under the same keys are kept
+    expect(sent[2][2]).toEqual({ playerId: 'socket-1' });
+  });
+
+  it('holds broadcasts back for the configured delay', async () => {
+    const sent: string[] = [];
+    const feed = new SpectatorFeed((_channel, event) => sent.push(event));
+    const gm = new GameManager(undefined, undefined, feed);
+    const room = await startGame(gm);
+    room.spectatorDelaySeconds = 30;
+    room.addSpectator('watch-1', 'Viewer');
+
+    room.onBroadcast?.('team_selected', { phase: 'VOTE' });
+    vi.advanceTimersByTime(29_000);
+    expect(sent).toEqual([]);
+    vi.advanceTimersByTime(1_000);
+    expect(sent).toEqual(['team_selected']);
+
+    room.onBroadcast?.('vote_result', {});
+    expect(feed.pendingCount(room.id)).toBe(1);
+    gm.removeRoom(room.id);
+    expect(feed.pendingCount(room.id)).toBe(0);
+  });
+});
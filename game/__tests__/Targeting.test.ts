@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { Room } from "../Room";
+import { replayRoom } from "../events/replay";
+import { validateRoomRules } from "../RoomRules";
+
+async function targetingRoom() {
+    const room = new Room("targeting", 5, [], undefined, "targeting");
+    for (let i = 0; i < 5; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    room.rules.targeting = true;
+    await room.startGame();
+    return room;
+}
+
+// Play the given mission with an approved team, failing it when `fail` is set
+async function playMission(room: Room, missionIndex: number, fail = false) {
+    const team = room.players.slice(0, room.getMissionSize(missionIndex)).map(p => p.id);
+    expect(room.selectTeam(team, missionIndex)).toBe(true);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    team.forEach((id, i) => room.submitMissionAction(id, !(fail && i === 0)));
+    return room.resolveMission();
+}
+
+describe("Room - Targeting", () => {
+    it("rejects another mission than the current one without the rule", async () => {
+        const room = new Room("no-targeting", 5, [], undefined, "no-targeting");
+        for (let i = 0; i < 5; i++) {
+            room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+        }
+        await room.startGame();
+
+        expect(room.getTargetableMissions()).toEqual([0]);
+        expect(room.selectTeam(["socket-0", "socket-1", "socket-2"], 1)).toBe(false);
+        expect(room.phase).toBe("TEAM_SELECTION");
+    });
+
+    it("lets the leader pick any open mission but the last one", async () => {
+        const room = await targetingRoom();
+        expect(room.getTargetableMissions()).toEqual([0, 1, 2, 3]);
+
+        // Mission 2 needs 3 players with 5 players
+        expect(room.selectTeam(["socket-0", "socket-1"], 1)).toBe(false);
+        expect(room.selectTeam(["socket-0", "socket-1", "socket-2"], 4)).toBe(false);
+        expect(room.selectTeam(["socket-0", "socket-1", "socket-2"], 1)).toBe(true);
+        expect(room.currentMissionIndex).toBe(1);
+    });
+
+    it("fills the mission board in the order the missions were played", async () => {
+        const room = await targetingRoom();
+        await playMission(room, 2);
+        await playMission(room, 0, true);
+
+        expect(room.missionHistory).toEqual([
+            { success: false, failCount: 1, failsRequired: 1 },
+            null,
+            { success: true, failCount: 0, failsRequired: 1 },
+            null,
+            null,
+        ]);
+        expect(room.getResolvedMissionCount()).toBe(2);
+        expect(room.getTargetableMissions()).toEqual([1, 3, 4]);
+        expect(room.currentMissionIndex).toBe(1);
+
+        const state: any = await room.getGameState("uuid-0");
+        expect(state.targetableMissions).toEqual([1, 3, 4]);
+        expect(state.missionSizeByMission).toEqual([2, 3, 2, 3, 3]);
+    });
+
+    it("rebuilds the board from the game log", async () => {
+        const room = await targetingRoom();
+        await playMission(room, 3);
+        await playMission(room, 1, true);
+
+        const replayed = replayRoom(room.events);
+        expect(replayed.missionHistory).toEqual(room.missionHistory);
+        expect(replayed.currentMissionIndex).toBe(room.currentMissionIndex);
+    });
+
+    it("validates the rule", () => {
+        expect(validateRoomRules({ targeting: "yes" }).errors).toEqual(["targeting must be a boolean"]);
+        expect(validateRoomRules({ targeting: true }).rules.targeting).toBe(true);
+        expect(validateRoomRules(undefined).rules.targeting).toBe(false);
+    });
+});
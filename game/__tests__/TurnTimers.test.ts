@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Room } from '../Room';
+import { GameManager } from '../GameManager';
+import { TurnTimers, validateTurnTimerConfig } from '../TurnTimers';
+
+function makeRoom(config: Partial<Room['timerConfig']> = {}) {
+  const room = new Room('TIMERS', 5, [], undefined, 'timers');
+  room.timerConfig = { ...room.timerConfig, ...config };
+  for (let i = 0; i < 5; i++) {
+    room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+  }
+  return room;
+}
+
+describe('validateTurnTimerConfig', () => {
+  it('fills defaults and accepts valid values', () => {
+    const { config, errors } = validateTurnTimerConfig({ voteSeconds: 30, voteTimeoutAction: 'reject' });
+    expect(errors).toEqual([]);
+    expect(config).toEqual({
+      teamSelectionSeconds: null,
+      voteSeconds: 30,
+      missionSeconds: null,
+      expansionPhaseSeconds: null,
+      voteTimeoutAction: 'reject',
+    });
+  });
+
+  it('reports invalid values', () => {
+    const { errors } = validateTurnTimerConfig({ voteSeconds: 1, missionSeconds: 'x', voteTimeoutAction: 'maybe' });
+    expect(errors).toHaveLength(3);
+    expect(validateTurnTimerConfig('60').errors).toHaveLength(1);
+  });
+});
+
+describe('Room phase deadlines', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('has no deadline unless configured', async () => {
+    const room = makeRoom();
+    await room.startGame();
+    expect(room.phaseDeadline).toBeNull();
+    const state: any = await room.getGameState('uuid-0');
+    expect(state.deadline).toBeNull();
+  });
+
+  it('starts a countdown per phase and exposes it in getGameState', async () => {
+    const room = makeRoom({ teamSelectionSeconds: 60, voteSeconds: 30 });
+    await room.startGame();
+
+    expect(room.phaseDeadline?.phase).toBe('TEAM_SELECTION');
+    vi.advanceTimersByTime(10_000);
+
+    const state: any = await room.getGameState('uuid-0');
+    expect(state.deadline.phase).toBe('TEAM_SELECTION');
+    expect(state.deadline.remainingMs).toBe(50_000);
+
+    room.selectTeam(['socket-0', 'socket-1']);
+    expect(room.phaseDeadline?.phase).toBe('VOTE');
+    expect(room.phaseDeadline!.expiresAt - Date.now()).toBe(30_000);
+
+    // MISSION has no deadline configured: the vote countdown is cleared
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    expect(room.phase).toBe('MISSION');
+    expect(room.phaseDeadline).toBeNull();
+  });
+
+  it('gives every new leader a fresh deadline', async () => {
+    const room = makeRoom({ teamSelectionSeconds: 60 });
+    await room.startGame();
+    const first = room.phaseDeadline;
+
+    vi.advanceTimersByTime(5_000);
+    room.nextTurn();
+    expect(room.phaseDeadline).not.toBe(first);
+    expect(room.phaseDeadline!.expiresAt - Date.now()).toBe(60_000);
+  });
+
+  it('passes leadership when the leader times out', async () => {
+    const room = makeRoom({ teamSelectionSeconds: 60 });
+    await room.startGame();
+    const leader = room.currentLeaderIndex;
+
+    const result = room.applyTimeoutDefault();
+    expect(result).toEqual({ phase: 'TEAM_SELECTION', playerIds: [room.players[leader].playerId] });
+    expect(room.currentLeaderIndex).toBe((leader + 1) % 5);
+    expect(room.phase).toBe('TEAM_SELECTION');
+    expect(room.voteRejections).toBe(0);
+  });
+
+  it('fills missing votes with the configured default', async () => {
+    const room = makeRoom({ voteSeconds: 30, voteTimeoutAction: 'reject' });
+    await room.startGame();
+    room.selectTeam(['socket-0', 'socket-1']);
+    room.submitVote('socket-0', true);
+
+    const result = room.applyTimeoutDefault();
+    expect(result?.playerIds).toEqual(['uuid-1', 'uuid-2', 'uuid-3', 'uuid-4']);
+    expect(room.votes.size).toBe(5);
+    expect(room.tallyVotes().rejectCount).toBe(4);
+  });
+
+  it('plays missing mission cards as successes', async () => {
+    const room = makeRoom({ missionSeconds: 30 });
+    await room.startGame();
+    room.selectTeam(['socket-0', 'socket-1']);
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    room.submitMissionAction('socket-0', false);
+
+    expect(room.applyTimeoutDefault()?.playerIds).toEqual(['uuid-1']);
+    const result = await room.resolveMission();
+    expect(result.failCount).toBe(1);
+    expect(room.events.some(e => e.type === 'turn:timeout')).toBe(true);
+  });
+
+  it('has no default outside timed phases', () => {
+    const room = makeRoom();
+    expect(room.applyTimeoutDefault()).toBeNull();
+  });
+});
+
+describe('TurnTimers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires on expiry and is re-armed or cleared as the phase changes', async () => {
+    const expired: string[] = [];
+    const armed: string[] = [];
+    const timers = new TurnTimers(
+      room => expired.push(room.phase),
+      room => armed.push(room.phase)
+    );
+    const gm = new GameManager(undefined, timers);
+
+    const room = gm.createRoom(5, []);
+    room.timerConfig = { ...room.timerConfig, teamSelectionSeconds: 60, voteSeconds: 30 };
+    for (let i = 0; i < 5; i++) room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    await room.startGame();
+    expect(armed).toEqual(['TEAM_SELECTION']);
+
+    // Leader acts in time: the team selection timer is replaced by the vote timer
+    vi.advanceTimersByTime(59_000);
+    room.selectTeam(['socket-0', 'socket-1']);
+    expect(armed).toEqual(['TEAM_SELECTION', 'VOTE']);
+    vi.advanceTimersByTime(2_000);
+    expect(expired).toEqual([]);
+
+    vi.advanceTimersByTime(28_000);
+    expect(expired).toEqual(['VOTE']);
+
+    gm.removeRoom(room.id);
+    expect(timers.isArmed(room.id)).toBe(false);
+  });
+
+  it('re-arms the remaining time of a restored room', async () => {
+    const expired: string[] = [];
+    const timers = new TurnTimers(room => expired.push(room.id));
+    const source = makeRoom({ teamSelectionSeconds: 60 });
+    await source.startGame();
+    vi.advanceTimersByTime(40_000);
+
+    const gm = new GameManager(undefined, timers);
+    const restored = gm.restoreRoom(gm.snapshotRoom(source));
+    expect(timers.isArmed(restored.id)).toBe(true);
+
+    vi.advanceTimersByTime(19_000);
+    expect(expired).toEqual([]);
+    vi.advanceTimersByTime(1_000);
+    expect(expired).toEqual([restored.id]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { Room } from "../Room";
+
+// Puts a room of `count` players on the 4th mission with its team already approved
+async function roomOnFourthMission(count: number) {
+    const room = new Room("two-fail", 5, [], undefined, "two-fail");
+    for (let i = 0; i < count; i++) {
+        room.addPlayer(`socket-${i}`, `Player${i}`, `uuid-${i}`);
+    }
+    await room.startGame();
+    room.currentMissionIndex = 3;
+    room.selectTeam(room.players.slice(0, room.getCurrentMissionSize()).map(p => p.id));
+    room.players.forEach(p => room.submitVote(p.id, true));
+    room.tallyVotes();
+    return room;
+}
+
+describe("Room - Two fails on the 4th mission", () => {
+    it("needs two fail cards on mission 4 with 7 or more players", async () => {
+        const room = await roomOnFourthMission(7);
+        expect(room.getRequiredFails()).toBe(2);
+        expect(room.getRequiredFails(0)).toBe(1);
+
+        room.selectedTeam.forEach((id, i) => room.submitMissionAction(room.getPlayerByPlayerId(id)!.id, i !== 0));
+        const result = await room.resolveMission();
+
+        expect(result.success).toBe(true);
+        expect(result.failCount).toBe(1);
+        expect(room.missionHistory[3]).toEqual({ success: true, failCount: 1, failsRequired: 2 });
+        expect(room.events.find(e => e.type === "mission:resolved")?.payload).toMatchObject({ failsRequired: 2 });
+    });
+
+    it("fails mission 4 with two fail cards", async () => {
+        const room = await roomOnFourthMission(8);
+        room.selectedTeam.forEach((id, i) => room.submitMissionAction(room.getPlayerByPlayerId(id)!.id, i > 1));
+        const result = await room.resolveMission();
+        expect(result.success).toBe(false);
+        expect(room.failedMissions).toBe(1);
+    });
+
+    it("keeps a single fail on mission 4 with fewer than 7 players", async () => {
+        const room = await roomOnFourthMission(6);
+        expect(room.getRequiredFails()).toBe(1);
+    });
+
+    it("can be turned off per room", async () => {
+        const room = await roomOnFourthMission(7);
+        room.rules.twoFailMissionRule = false;
+        room.selectedTeam.forEach((id, i) => room.submitMissionAction(room.getPlayerByPlayerId(id)!.id, i !== 0));
+        const result = await room.resolveMission();
+        expect(result.success).toBe(false);
+        expect(room.missionHistory[3]?.failsRequired).toBe(1);
+    });
+
+    it("exposes the threshold in the game state", async () => {
+        const room = await roomOnFourthMission(7);
+        const state: any = await room.getGameState("uuid-0");
+        expect(state.missionFailsRequired).toBe(2);
+        expect(state.missionFailsRequiredByMission).toEqual([1, 1, 1, 2, 1]);
+        expect(state.rules.twoFailMissionRule).toBe(true);
+    });
+});
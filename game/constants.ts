@@ -51,6 +51,31 @@ export const MISSION_CONFIG: Record<number, number[]> = {
   20: [6, 7, 7, 8, 8],
 };
 
+// Fail cards needed to fail each mission (official rule: mission 4 needs 2 fails with 7+ players)
+// [Players] => [Mission1, Mission2, Mission3, Mission4, Mission5]
+export const MISSION_FAILS_REQUIRED: Record<number, number[]> = {
+  1: [1, 1, 1, 1, 1],
+  2: [1, 1, 1, 1, 1],
+  3: [1, 1, 1, 1, 1],
+  4: [1, 1, 1, 1, 1],
+  5: [1, 1, 1, 1, 1],
+  6: [1, 1, 1, 1, 1],
+  7: [1, 1, 1, 2, 1],
+  8: [1, 1, 1, 2, 1],
+  9: [1, 1, 1, 2, 1],
+  10: [1, 1, 1, 2, 1],
+  11: [1, 1, 1, 2, 1],
+  12: [1, 1, 1, 2, 1],
+  13: [1, 1, 1, 2, 1],
+  14: [1, 1, 1, 2, 1],
+  15: [1, 1, 1, 2, 1],
+  16: [1, 1, 1, 2, 1],
+  17: [1, 1, 1, 2, 1],
+  18: [1, 1, 1, 2, 1],
+  19: [1, 1, 1, 2, 1],
+  20: [1, 1, 1, 2, 1],
+};
+
 export const MAX_REJECTIONS = 5;
 export const MISSIONS_TO_SUCCEED = 3;
 export const MISSIONS_TO_FAIL = 3;
\ No newline at end of file
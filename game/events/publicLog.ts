@@ -0,0 +1,28 @@
+import { GameEvent } from './types';
+
+/**
+ * Project a game log for public consumption after the game is over.
+ * Mission cards stay anonymous even post-game: "mission:action" events keep
+ * who played a card but drop which card it was (failCount is on "mission:resolved"),
+ * and expansions that privately show someone a mission card log it as data.missionCard,
+ * which is dropped as well.
+ * The RNG seeds ("room:created", "game:reset") and state (every event's rngState) are dropped too:
+ * the room keeps drawing from its Rng after a restart, so they would predict the next deal.
+ */
+export function getPublicEvents(events: GameEvent[]): GameEvent[] {
+    return events.map(({ rngState, ...event }) => {
+        if (event.type === 'room:created' || event.type === 'game:reset') {
+            const { seed, ...rest } = event.payload;
+            return { ...event, payload: rest } as unknown as GameEvent;
+        }
+        if (event.type === 'mission:action') {
+            const { success, ...rest } = event.payload;
+            return { ...event, payload: rest } as unknown as GameEvent;
+        }
+        if (event.type === 'expansion:action' && event.payload.data && 'missionCard' in event.payload.data) {
+            const { missionCard, ...data } = event.payload.data;
+            return { ...event, payload: { ...event.payload, data } };
+        }
+        return event;
+    });
+}
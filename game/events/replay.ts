@@ -0,0 +1,185 @@
+import { Room } from '../Room';
+import { HookManager } from '../hooks/HookManager';
+import { AVAILABLE_EXPANSIONS } from '../expansions';
+import { GameEvent } from './types';
+import { cloneRoomRules } from '../RoomRules';
+import { Rng } from '../rng/Rng';
+
+/**
+ * Apply a single recorded event to a room.
+ * Events carry their outcomes, so this only copies facts onto the room and
+ * never re-runs game logic, hooks or randomness.
+ */
+export function applyEvent(room: Room, event: GameEvent): void {
+    switch (event.type) {
+        case 'room:created': {
+            room.minPlayers = event.payload.minPlayers;
+            room.maxPlayers = event.payload.maxPlayers;
+            room.expansions = [...event.payload.expansions];
+            room.createdAt = event.timestamp;
+            break;
+        }
+        case 'player:joined': {
+            const { playerId, socketId, nickname } = event.payload;
+            room.players.push({ id: socketId, playerId, nickname, isLeader: false });
+            break;
+        }
+        case 'player:reconnected': {
+            const player = room.getPlayerByPlayerId(event.payload.playerId);
+            if (player) player.id = event.payload.socketId;
+            break;
+        }
+        case 'player:left': {
+            const player = room.getPlayerByPlayerId(event.payload.playerId);
+            if (player && event.payload.kicked) {
+                room.kickedPlayers.push({ playerId: player.playerId, nickname: player.nickname });
+            }
+            room.players = room.players.filter(p => p.playerId !== event.payload.playerId);
+            break;
+        }
+        case 'host:changed': {
+            room.hostId = event.payload.hostId;
+            break;
+        }
+        case 'rules:updated': {
+            room.rules = cloneRoomRules(event.payload.rules);
+            break;
+        }
+        case 'expansions:updated': {
+            room.expansions = [...event.payload.expansions];
+            room.expansionOptions = { ...event.payload.expansionOptions };
+            break;
+        }
+        case 'game:started': {
+            event.payload.roles.forEach(({ playerId, role, specialRole }) => {
+                const player = room.getPlayerByPlayerId(playerId);
+                if (player) {
+                    player.role = role;
+                    player.specialRole = specialRole;
+                }
+            });
+            setLeader(room, event.payload.leaderIndex);
+            room.phase = 'TEAM_SELECTION';
+            break;
+        }
+        case 'turn:advanced': {
+            setLeader(room, event.payload.leaderIndex);
+            room.phase = 'TEAM_SELECTION';
+            room.selectedTeam = [];
+            room.votes = new Map();
+            break;
+        }
+        case 'team:selected': {
+            room.selectedTeam = [...event.payload.team];
+            room.currentMissionIndex = event.payload.missionIndex;
+            room.phase = 'VOTE';
+            break;
+        }
+        case 'vote:submitted': {
+            room.votes.set(event.payload.playerId, event.payload.approve);
+            break;
+        }
+        case 'votes:tallied': {
+            room.voteRejections = event.payload.voteRejections;
+            room.failedMissions = event.payload.failedMissions;
+            room.phase = event.payload.phase;
+            room.votes.clear();
+            break;
+        }
+        case 'mission:action': {
+            room.missionActions.set(event.payload.playerId, event.payload.success);
+            break;
+        }
+        case 'mission:resolved': {
+            const { missionIndex, success, failCount, failsRequired } = event.payload;
+            if (success) room.succeededMissions++;
+            else room.failedMissions++;
+            room.missionHistory[missionIndex] = { success, failCount, failsRequired };
+            room.missionActions.clear();
+            room.currentMissionIndex = event.payload.nextMissionIndex;
+            room.phase = event.payload.phase;
+            break;
+        }
+        case 'player:allegiance': {
+            const player = room.getPlayerByPlayerId(event.payload.playerId);
+            if (player) {
+                player.dealtRole = player.dealtRole ?? player.role;
+                player.role = event.payload.role;
+            }
+            break;
+        }
+        case 'game:ended': {
+            room.winner = event.payload.winner;
+            room.phase = 'GAME_OVER';
+            break;
+        }
+        case 'expansion:action': {
+            if (event.payload.phase) {
+                room.phase = event.payload.phase;
+            }
+            const expansion = AVAILABLE_EXPANSIONS[event.payload.expansionId as keyof typeof AVAILABLE_EXPANSIONS];
+            if (expansion && expansion.replayEvent) {
+                expansion.replayEvent(room, event);
+            }
+            break;
+        }
+        case 'game:reset': {
+            if (event.payload.seed !== undefined) {
+                room.rng = new Rng(event.payload.seed);
+            }
+            room.currentMissionIndex = 0;
+            room.failedMissions = 0;
+            room.succeededMissions = 0;
+            room.missionHistory = room.missionHistory.map(() => null);
+            room.voteRejections = 0;
+            room.selectedTeam = [];
+            room.votes.clear();
+            room.missionActions.clear();
+            room.winner = null;
+            room.players.forEach(p => {
+                p.isLeader = false;
+                p.role = undefined;
+                p.dealtRole = undefined;
+                p.specialRole = undefined;
+            });
+            break;
+        }
+    }
+}
+
+/**
+ * Rebuild a room from its game log.
+ * The first event must be "room:created". Pass a HookManager with the room's
+ * expansions installed if the rebuilt room will keep being played.
+ */
+export function replayRoom(events: GameEvent[], hookManager?: HookManager): Room {
+    const first = events[0];
+    if (!first || first.type !== 'room:created') {
+        throw new Error('Cannot replay a game log that does not start with room:created');
+    }
+
+    const room = new Room(
+        first.payload.roomId,
+        first.payload.minPlayers,
+        [...first.payload.expansions],
+        hookManager,
+        first.payload.seed,
+        first.payload.expansionOptions
+    );
+    events.forEach(event => applyEvent(room, event));
+
+    // Replace the constructor's own "room:created" entry with the original log
+    room.events = events.map(e => ({ ...e }));
+    const last = events[events.length - 1];
+    room.lastActivityAt = last.timestamp;
+    if (typeof last.rngState === 'number') {
+        room.rng.setState(last.rngState);
+    }
+
+    return room;
+}
+
+function setLeader(room: Room, leaderIndex: number) {
+    room.currentLeaderIndex = leaderIndex;
+    room.players.forEach((p, i) => (p.isLeader = i === leaderIndex));
+}
@@ -0,0 +1,223 @@
+import type { Room, Role, SpecialRole } from '../Room';
+import { GameEvent } from './types';
+import { getPublicEvents } from './publicLog';
+
+export interface ReplayProposal {
+    leaderId: string | null;
+    team: string[];
+    /** Revealed votes (nickname -> approve), filled once the proposal is tallied */
+    votes: Record<string, boolean> | null;
+    approved: boolean | null;
+    approveCount: number | null;
+    rejectCount: number | null;
+    penaltyApplied: boolean;
+}
+
+export interface ReplayExpansionAction {
+    expansionId: string;
+    action: string;
+    actorId: string | null;
+    targetId: string | null;
+    /** Extra expansion data, only included after GAME_OVER since it may be secret */
+    data?: Record<string, any>;
+    timestamp: number;
+}
+
+export interface ReplayRound {
+    /** 1-based round number (one round per mission) */
+    round: number;
+    missionIndex: number;
+    proposals: ReplayProposal[];
+    mission: {
+        team: string[];
+        success: boolean;
+        failCount: number;
+        failsRequired: number;
+        successCount: number;
+    } | null;
+    expansionActions: ReplayExpansionAction[];
+}
+
+export interface ReplayPlayer {
+    nickname: string;
+    role?: Role;
+    specialRole?: SpecialRole;
+}
+
+export interface ReplayPage {
+    roomId: string;
+    phase: string;
+    gameOver: boolean;
+    winner: "RESISTANCE" | "SPY" | null;
+    players: ReplayPlayer[];
+    page: number;
+    pageSize: number;
+    totalRounds: number;
+    totalPages: number;
+    rounds: ReplayRound[];
+}
+
+export const REPLAY_MAX_PAGE_SIZE = 5;
+
+/**
+ * Build the per-round timeline of the current game from the room's event log.
+ * Only public information is included while the game is running; roles,
+ * special roles and expansion secrets are revealed once the game is over.
+ */
+export function buildTimeline(events: GameEvent[], revealSecrets: boolean): { rounds: ReplayRound[] } {
+    let rounds: ReplayRound[] = [];
+    let currentMissionIndex = 0;
+    let lastResolved: ReplayRound | null = null;
+
+    const roundFor = (missionIndex: number): ReplayRound => {
+        let round = rounds.find(r => r.missionIndex === missionIndex);
+        if (!round) {
+            round = { round: rounds.length + 1, missionIndex, proposals: [], mission: null, expansionActions: [] };
+            rounds.push(round);
+        }
+        return round;
+    };
+
+    for (const event of events) {
+        switch (event.type) {
+            case 'game:reset':
+                // The timeline only covers the latest game
+                rounds = [];
+                currentMissionIndex = 0;
+                lastResolved = null;
+                break;
+            case 'team:selected':
+                currentMissionIndex = event.payload.missionIndex;
+                roundFor(currentMissionIndex).proposals.push({
+                    leaderId: event.payload.leaderId,
+                    team: [...event.payload.team],
+                    votes: null,
+                    approved: null,
+                    approveCount: null,
+                    rejectCount: null,
+                    penaltyApplied: false,
+                });
+                break;
+            case 'votes:tallied': {
+                const proposals = roundFor(currentMissionIndex).proposals;
+                const proposal = proposals[proposals.length - 1];
+                if (proposal) {
+                    proposal.votes = { ...event.payload.votes };
+                    proposal.approved = event.payload.approved;
+                    proposal.approveCount = event.payload.approveCount;
+                    proposal.rejectCount = event.payload.rejectCount;
+                    proposal.penaltyApplied = event.payload.penaltyApplied;
+                }
+                break;
+            }
+            case 'mission:resolved': {
+                const round = roundFor(event.payload.missionIndex);
+                const approved = [...round.proposals].reverse().find(p => p.approved);
+                const team = approved ? approved.team : [];
+                round.mission = {
+                    team,
+                    success: event.payload.success,
+                    failCount: event.payload.failCount,
+                    failsRequired: event.payload.failsRequired,
+                    successCount: Math.max(team.length - event.payload.failCount, 0),
+                };
+                lastResolved = round;
+                currentMissionIndex = event.payload.nextMissionIndex;
+                break;
+            }
+            case 'expansion:action': {
+                // Actions between a mission and the next proposal belong to the mission just played
+                const existing = rounds.find(r => r.missionIndex === currentMissionIndex);
+                const target = lastResolved && (!existing || existing.proposals.length === 0)
+                    ? lastResolved
+                    : roundFor(currentMissionIndex);
+
+                const action: ReplayExpansionAction = {
+                    expansionId: event.payload.expansionId,
+                    action: event.payload.action,
+                    actorId: event.payload.actorId ?? null,
+                    targetId: event.payload.targetId ?? null,
+                    timestamp: event.timestamp,
+                };
+                if (revealSecrets && event.payload.data) {
+                    action.data = event.payload.data;
+                }
+                target.expansionActions.push(action);
+                break;
+            }
+        }
+    }
+
+    return { rounds };
+}
+
+/**
+ * Refer to players by nickname (unique in a room) instead of playerId: the replay is public,
+ * and a playerId is the credential a player rejoins their seat with.
+ * Expansion data naming a player (e.g. merlinId) is mapped as well.
+ */
+function keyByNickname(
+    round: ReplayRound,
+    nicknameOf: (playerId: string) => string,
+    isPlayerId: (value: unknown) => value is string
+): ReplayRound {
+    return {
+        ...round,
+        proposals: round.proposals.map(p => ({
+            ...p,
+            leaderId: p.leaderId && nicknameOf(p.leaderId),
+            team: p.team.map(nicknameOf),
+            votes: p.votes && Object.fromEntries(Object.entries(p.votes).map(([id, vote]) => [nicknameOf(id), vote])),
+        })),
+        mission: round.mission && { ...round.mission, team: round.mission.team.map(nicknameOf) },
+        expansionActions: round.expansionActions.map(a => ({
+            ...a,
+            actorId: a.actorId && nicknameOf(a.actorId),
+            targetId: a.targetId && nicknameOf(a.targetId),
+            ...(a.data && {
+                data: Object.fromEntries(Object.entries(a.data).map(([key, value]) => [key, isPlayerId(value) ? nicknameOf(value) : value])),
+            }),
+        })),
+    };
+}
+
+/**
+ * Paginated replay of a room: one page is `pageSize` rounds (default 1, so a
+ * client can step through the game round by round). Players are keyed by nickname,
+ * even after the game is over: the room lives on and can be restarted.
+ */
+export function getReplayPage(room: Room, page = 1, pageSize = 1): ReplayPage {
+    const gameOver = room.phase === 'GAME_OVER';
+    const { rounds } = buildTimeline(getPublicEvents(room.events), gameOver);
+
+    const size = Math.min(Math.max(Math.floor(pageSize) || 1, 1), REPLAY_MAX_PAGE_SIZE);
+    const totalPages = Math.max(Math.ceil(rounds.length / size), 1);
+    const current = Math.min(Math.max(Math.floor(page) || 1, 1), totalPages);
+    const pageRounds = rounds.slice((current - 1) * size, current * size);
+
+    // Players who left keep an opaque placeholder: their playerId is not published either
+    const nicknames = new Map(room.players.map(p => [p.playerId, p.nickname]));
+    const nicknameOf = (playerId: string) => nicknames.get(playerId) ?? 'former player';
+    const playerIds = new Set(room.events.flatMap(e => (e.type === 'player:joined' ? [e.payload.playerId] : [])));
+    const isPlayerId = (value: unknown): value is string => typeof value === 'string' && playerIds.has(value);
+
+    return {
+        roomId: room.id,
+        phase: room.phase,
+        gameOver,
+        winner: room.getWinner(),
+        players: room.players.map(p => {
+            const player: ReplayPlayer = { nickname: p.nickname };
+            if (gameOver) {
+                player.role = p.role;
+                player.specialRole = p.specialRole ?? null;
+            }
+            return player;
+        }),
+        page: current,
+        pageSize: size,
+        totalRounds: rounds.length,
+        totalPages,
+        rounds: pageRounds.map(round => keyByNickname(round, nicknameOf, isPlayerId)),
+    };
+}
@@ -0,0 +1,88 @@
+import type { GamePhase, Role, SpecialRole } from '../Room';
+import type { RoomRules } from '../RoomRules';
+import type { ExpansionOptions } from '../expansions/types';
+
+/**
+ * Payload of every event recorded in a room's game log, keyed by event type.
+ *
+ * Events are facts: they carry the outcome of a transition (including any
+ * randomness, such as role assignment or the starting leader) so that a room
+ * can be rebuilt by replaying them without re-running game logic.
+ * All player references are permanent playerIds (UUIDs), never socket ids.
+ */
+export interface GameEventPayloads {
+    'room:created': {
+        roomId: string;
+        minPlayers: number;
+        maxPlayers: number;
+        expansions: string[];
+        // Missing from logs recorded before expansion options existed
+        expansionOptions?: Record<string, ExpansionOptions>;
+        seed: string;
+    };
+    'player:joined': { playerId: string; socketId: string; nickname: string };
+    'player:reconnected': { playerId: string; socketId: string };
+    'player:left': { playerId: string; kicked?: boolean };
+    'host:changed': { hostId: string | null; previousHostId: string | null };
+    'rules:updated': { rules: RoomRules };
+    'expansions:updated': { expansions: string[]; expansionOptions: Record<string, ExpansionOptions> };
+    'game:started': {
+        leaderIndex: number;
+        roles: Array<{ playerId: string; role: Role; specialRole: SpecialRole }>;
+    };
+    'turn:advanced': { leaderIndex: number; leaderId: string };
+    'team:selected': { leaderId: string | null; missionIndex: number; team: string[] };
+    'vote:submitted': { playerId: string; approve: boolean };
+    'votes:tallied': {
+        approved: boolean;
+        approveCount: number;
+        rejectCount: number;
+        penaltyApplied: boolean;
+        votes: Record<string, boolean>;
+        voteRejections: number;
+        failedMissions: number;
+        phase: GamePhase;
+    };
+    'mission:action': { playerId: string; success: boolean };
+    'mission:resolved': {
+        missionIndex: number;
+        success: boolean;
+        failCount: number;
+        failsRequired: number;
+        nextMissionIndex: number;
+        phase: GamePhase;
+    };
+    'expansion:action': {
+        expansionId: string;
+        action: string;
+        actorId?: string | null;
+        targetId?: string | null;
+        phase?: GamePhase;
+        data?: Record<string, any>;
+    };
+    'player:allegiance': { playerId: string; role: Role };
+    'turn:timeout': { phase: GamePhase; playerIds: string[] };
+    'game:ended': { winner: Role };
+    // The restarted game's fresh seed (missing from logs recorded before restarts reseeded)
+    'game:reset': { seed?: string };
+}
+
+export type GameEventType = keyof GameEventPayloads;
+
+/**
+ * A single recorded event of a given type
+ */
+export interface GameEventOf<T extends GameEventType> {
+    /** Position in the room's log, starting at 0 */
+    seq: number;
+    type: T;
+    timestamp: number;
+    /** Room RNG state right after the event, so a replayed room keeps the same random sequence */
+    rngState?: number;
+    payload: GameEventPayloads[T];
+}
+
+/**
+ * Discriminated union of every game event (narrow with `event.type`)
+ */
+export type GameEvent = { [T in GameEventType]: GameEventOf<T> }[GameEventType];
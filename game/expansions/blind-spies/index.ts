@@ -16,29 +16,23 @@ export const BlindSpiesExpansion: ExpansionPlugin = {
     name: 'Espiões Cegos',
     version: '1.0.0',
 
+    visibilityRules: [
+        {
+            kind: 'spies',
+            effect: 'hide',
+            description: 'Spies do not see the other spies',
+            applies: (viewer) => viewer.role === 'SPY',
+        },
+    ],
+
     install(hookManager: HookManager) {
         console.log('[BlindSpies] Installing expansion...')
 
-        // Hook: Remove spy visibility from spies in state sync
-        hookManager.register('state:sync', (context) => {
-            const { player, state } = context
-
-            // Remove spy visibility for spies (but not for Merlin)
-            // This allows Merlin to still see spies if merlin-assassin expansion is active
-            if (player.role === 'SPY' && player.specialRole !== 'MERLIN') {
-                context.state.spies = undefined
-                console.log(`[BlindSpies] Hiding spies from ${player.nickname}`)
-            }
-
-            return context
-        })
-
         console.log('[BlindSpies] Expansion installed successfully')
     },
 
     uninstall(hookManager: HookManager) {
         console.log('[BlindSpies] Uninstalling expansion...')
-        // Hooks are automatically cleared by HookManager when needed
-        // No additional cleanup required
+        hookManager.unregisterOwner('blind-spies')
     }
 }
@@ -0,0 +1,252 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+import type { Player, Room } from '../../Room';
+import { broadcast, ensureState, findPlayer, resolveMission, socketIdOf } from '../helpers';
+
+export const EXCALIBUR_PHASE = 'EXCALIBUR';
+
+// Holder of Excalibur for the current team, and every card flipped (playerIds)
+export interface ExcaliburState {
+    holder: string | null;
+    uses: Array<{ missionIndex: number; holder: string; target: string; original: boolean }>;
+}
+
+declare module '../../Room' {
+    interface GamePhaseRegistry {
+        EXCALIBUR: true;
+    }
+
+    interface Room {
+        excaliburState?: ExcaliburState | null;
+    }
+}
+
+const excaliburState = (room: Room) => ensureState(room, 'excaliburState', () => ({ holder: null, uses: [] }));
+
+/**
+ * Flip a card: the card played by `targetId` on the current mission is turned over.
+ * Shared by live play and replay; returns the card as it was played.
+ */
+function flip(room: Room, holderId: string, targetId: string): boolean {
+    const original = room.missionActions.get(targetId)!;
+    room.missionActions.set(targetId, !original);
+    excaliburState(room).uses.push({ missionIndex: room.currentMissionIndex, holder: holderId, target: targetId, original });
+    return original;
+}
+
+/**
+ * Leader gives Excalibur to a member of the proposed team.
+ * Returns the new holder, or an error message.
+ */
+function give(room: Room, leaderSocketId: string, targetId: string): { holder: Player } | { error: string } {
+    const leader = findPlayer(room, leaderSocketId);
+    const holder = findPlayer(room, targetId);
+    const state = excaliburState(room);
+
+    if (room.phase !== 'VOTE' || !leader?.isLeader) return { error: 'Only the leader can give Excalibur, once the team is proposed' };
+    if (state.holder) return { error: 'Excalibur has already been given for this team' };
+    if (!holder || !room.selectedTeam.includes(holder.playerId)) return { error: 'Excalibur must go to a member of the team' };
+    if (holder.playerId === leader.playerId) return { error: 'The leader cannot keep Excalibur' };
+
+    state.holder = holder.playerId;
+    room.recordEvent('expansion:action', {
+        expansionId: 'excalibur',
+        action: 'give',
+        actorId: leader.playerId,
+        targetId: holder.playerId,
+    });
+    room.touch();
+
+    return { holder };
+}
+
+/**
+ * The holder flips another team member's card, or passes (no target).
+ * Returns the flipped player and the card they played, or an error message.
+ */
+function use(room: Room, holderSocketId: string, targetId: string | null) {
+    const state = room.excaliburState;
+    const holder = findPlayer(room, holderSocketId);
+
+    if (room.phase !== EXCALIBUR_PHASE || !state) return { error: 'Excalibur cannot be used now' };
+    if (!holder || holder.playerId !== state.holder) return { error: 'You do not hold Excalibur' };
+
+    const target = targetId ? findPlayer(room, targetId) : null;
+    if (targetId && (!target || !room.selectedTeam.includes(target.playerId))) {
+        return { error: 'Excalibur can only flip the card of a team member' };
+    }
+    if (target && target.playerId === holder.playerId) return { error: 'You cannot flip your own card' };
+
+    // The flipped card itself is never written to the game log (mission cards stay anonymous)
+    room.recordEvent('expansion:action', {
+        expansionId: 'excalibur',
+        action: target ? 'use' : 'pass',
+        actorId: holder.playerId,
+        targetId: target?.playerId,
+        phase: 'MISSION',
+    });
+    const original = target ? flip(room, holder.playerId, target.playerId) : null;
+    room.phase = 'MISSION';
+
+    return { target, original };
+}
+
+/**
+ * Excalibur Expansion (Avalon)
+ *
+ * - With the team proposal, the leader gives Excalibur to a team member (not themselves)
+ * - Once every card of the mission is played, the holder may flip one other member's card
+ *   before the mission resolves (phase EXCALIBUR); they privately learn the card as it was played
+ * - Everyone sees who held Excalibur and whose card was flipped, never the card itself
+ *
+ * Excalibur is optional: a leader who does not give it skips the phase for that mission.
+ * A holder who lets the phase's deadline expire passes.
+ */
+export const ExcaliburExpansion: ExpansionPlugin = {
+    id: 'excalibur',
+    name: 'Excalibur',
+    version: '1.0.0',
+
+    phases: [EXCALIBUR_PHASE],
+
+    phaseTimeouts: {
+        // The holder passes: the mission resolves with the cards as played
+        [EXCALIBUR_PHASE]: {
+            waitingOn: (room) => (room.excaliburState?.holder ? [room.excaliburState.holder] : []),
+            apply: (room) => {
+                use(room, room.excaliburState?.holder ?? '', null);
+            },
+            announce: (room, io) => resolveMission(io, room),
+        },
+    },
+
+    install(hookManager: HookManager) {
+        console.log('[Excalibur] Installing expansion...');
+
+        // Hook: Nobody holds Excalibur at game start
+        hookManager.register('game:start', (context) => {
+            const { room } = context;
+            room.excaliburState = { holder: null, uses: [] };
+            room.recordEvent('expansion:action', { expansionId: 'excalibur', action: 'setup' });
+            return context;
+        });
+
+        // Hook: A new proposal takes Excalibur back to the leader
+        hookManager.register('team:select', (context) => {
+            const { room } = context;
+            if (room.excaliburState?.holder) {
+                excaliburState(room).holder = null;
+                room.recordEvent('expansion:action', { expansionId: 'excalibur', action: 'returned' });
+            }
+            return context;
+        });
+
+        // Hook: Hold the mission back for the holder once the last card is played
+        hookManager.register('mission:submit', (context) => {
+            const { room, playerId } = context;
+            const holder = room.excaliburState?.holder;
+            const lastCard = !room.missionActions.has(playerId) &&
+                room.missionActions.size === room.selectedTeam.length - 1;
+
+            if (holder && lastCard && room.selectedTeam.includes(holder)) {
+                context.nextPhase = EXCALIBUR_PHASE;
+                room.recordEvent('expansion:action', { expansionId: 'excalibur', action: 'ready', actorId: holder, phase: EXCALIBUR_PHASE });
+            }
+
+            return context;
+        });
+
+        // Hook: Excalibur goes back to the leader after the mission
+        hookManager.register('mission:resolve', (context) => {
+            const { room } = context;
+            if (room.excaliburState) {
+                room.excaliburState.holder = null;
+            }
+            return context;
+        });
+
+        // Hook: Public holder and uses for everyone, flipped cards for the holder who saw them
+        hookManager.register('state:sync', (context) => {
+            const { room, player } = context;
+            const state = room.excaliburState;
+            if (!state) return context;
+
+            context.state.excalibur = {
+                holder: state.holder ? socketIdOf(room, state.holder) : null,
+                uses: state.uses.map((u) => ({ missionIndex: u.missionIndex, holder: socketIdOf(room, u.holder), target: socketIdOf(room, u.target) })),
+            };
+
+            if (player) {
+                context.state.excalibur.mySeenCards = state.uses
+                    .filter((u) => u.holder === player.playerId)
+                    .map((u) => ({ missionIndex: u.missionIndex, targetId: socketIdOf(room, u.target), success: u.original }));
+            }
+
+            return context;
+        });
+
+        console.log('[Excalibur] Expansion installed successfully');
+    },
+
+    registerSocketHandlers(socket: any, room: Room, io: any) {
+        // Leader gives Excalibur to a team member
+        socket.on('excalibur:give', ({ targetId }: { targetId: string }) => {
+            const outcome = give(room, socket.id, targetId);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            broadcast(io, room, 'excalibur:given', { holder: outcome.holder.id });
+        });
+
+        // Holder flips a card (targetId) or lets the mission resolve as played (no targetId)
+        socket.on('excalibur:use', async ({ targetId }: { targetId?: string | null } = {}) => {
+            const outcome = use(room, socket.id, targetId ?? null);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            if (outcome.target) {
+                // The original card goes ONLY to the holder
+                socket.emit('excalibur:result', { targetId: outcome.target.id, success: outcome.original });
+            }
+            broadcast(io, room, 'excalibur:used', { holder: socket.id, target: outcome.target?.id ?? null });
+
+            await resolveMission(io, room);
+        });
+    },
+
+    serializeState(room: Room) {
+        return room.excaliburState || null;
+    },
+
+    restoreState(room: Room, state: any) {
+        if (state) {
+            room.excaliburState = state;
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        const { action, actorId, targetId } = event.payload;
+
+        if (action === 'setup') {
+            room.excaliburState = { holder: null, uses: [] };
+        } else if (action === 'give' && targetId) {
+            excaliburState(room).holder = targetId;
+        } else if (action === 'returned') {
+            excaliburState(room).holder = null;
+        } else if (action === 'use' && actorId && targetId) {
+            flip(room, actorId, targetId);
+            excaliburState(room).holder = null;
+        } else if (action === 'pass') {
+            excaliburState(room).holder = null;
+        }
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[Excalibur] Uninstalling expansion...');
+        hookManager.unregisterOwner('excalibur');
+    }
+};
@@ -0,0 +1,76 @@
+import type { Player, Room } from '../Room';
+
+/**
+ * Public broadcast to the room's players, relayed to its spectators as well.
+ * Does nothing without a socket.io server (e.g. expansions installed in tests).
+ */
+export function broadcast(io: any, room: Room, event: string, payload: unknown): void {
+    if (!io) return;
+    io.to(room.id).emit(event, payload);
+    room.onBroadcast?.(event, payload);
+}
+
+/**
+ * Find a player by socket id (what clients send) or playerId (what expansion state stores)
+ */
+export function findPlayer(room: Room, id: string | null | undefined): Player | undefined {
+    return id ? room.players.find((p) => p.id === id || p.playerId === id) : undefined;
+}
+
+/**
+ * Socket id of a player, for messages to clients (null once they left)
+ */
+export function socketIdOf(room: Room, playerId: string | null | undefined): string | null {
+    return findPlayer(room, playerId)?.id ?? null;
+}
+
+/**
+ * An expansion's state on the room, created with `initial` on first use
+ */
+export function ensureState<K extends keyof Room>(room: Room, key: K, initial: () => NonNullable<Room[K]>): NonNullable<Room[K]> {
+    if (room[key] === undefined || room[key] === null) {
+        room[key] = initial();
+    }
+    return room[key] as NonNullable<Room[K]>;
+}
+
+/**
+ * Announce the current leader's turn (after a mission, a rejected team or an expansion phase)
+ */
+export function announceNewLeader(io: any, room: Room): void {
+    broadcast(io, room, 'new_leader', {
+        currentLeader: room.getCurrentLeader(),
+        missionIndex: room.currentMissionIndex,
+        missionSize: room.getCurrentMissionSize(),
+        failsRequired: room.getRequiredFails(),
+        deadline: room.getPhaseDeadline(),
+    });
+}
+
+/**
+ * Resolve the mission once every card is played and announce the outcome, then what comes next:
+ * the next leader, the end of the game, or a phase added by an expansion (which sends its own events)
+ */
+export async function resolveMission(io: any, room: Room): Promise<void> {
+    const result = await room.resolveMission();
+    broadcast(io, room, 'mission_result', {
+        ...result,
+        votes: Object.fromEntries(result.votes),
+        succeededMissions: room.succeededMissions,
+        failedMissions: room.failedMissions,
+        phase: room.phase,
+        missionHistory: room.missionHistory,
+        deadline: room.getPhaseDeadline(),
+    });
+
+    if (room.phase === 'TEAM_SELECTION') {
+        announceNewLeader(io, room);
+    } else if (room.phase === 'GAME_OVER') {
+        broadcast(io, room, 'game_over', {
+            winner: room.getWinner(),
+            players: room.getRevealedPlayers(),
+        });
+    } else {
+        broadcast(io, room, 'phase_change', { phase: room.phase });
+    }
+}
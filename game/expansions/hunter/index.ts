@@ -0,0 +1,335 @@
+import { ExpansionOptionSchema, ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+import { broadcast, ensureState, findPlayer } from '../helpers';
+import type { Role, Room, SpecialRole } from '../../Room';
+import { MISSIONS_TO_SUCCEED } from '../../constants';
+
+export const HUNT_PHASE = 'HUNT';
+
+declare module '../../Room' {
+    interface GamePhaseRegistry {
+        HUNT: true;
+    }
+
+    interface Room {
+        hunterState?: HunterState | null;
+    }
+}
+
+// A hunt in progress: the Hunter looks for the Chief of the team that completed its missions
+export interface PendingHunt {
+    hunterId: string; // playerId
+    chiefRole: 'RESISTANCE_CHIEF' | 'SPY_CHIEF';
+    missionWinner: Role;
+}
+
+// Outcome of a hunt: it decides the winner once the game is over
+export interface HuntResult {
+    hunterId: string; // playerId
+    targetId: string; // playerId
+    success: boolean;
+    winner: Role;
+}
+
+export interface HunterState {
+    hunt: PendingHunt | null;
+    result: HuntResult | null;
+    chiefCards: number[]; // Chief cards played, by mission index
+}
+
+// Whether Chiefs must play their Chief card on a mission (1-5)
+const chiefCardMission = (mission: number, required: boolean): ExpansionOptionSchema => ({
+    type: 'boolean',
+    default: required,
+    description: `Chiefs must play their Chief card on mission ${mission}`,
+});
+
+// Options the host may set when creating the room, or in the lobby
+const HUNTER_OPTIONS: Record<string, ExpansionOptionSchema> = {
+    chiefCardMission1: chiefCardMission(1, false),
+    chiefCardMission2: chiefCardMission(2, false),
+    chiefCardMission3: chiefCardMission(3, true),
+    chiefCardMission4: chiefCardMission(4, true),
+    chiefCardMission5: chiefCardMission(5, true),
+    replaceAssassination: {
+        type: 'boolean',
+        default: true,
+        description: 'Hunt instead of the Merlin & Assassin assassination',
+    },
+    resistanceDummyAgent: {
+        type: 'boolean',
+        default: false,
+        description: 'Add a Resistance Dummy Agent (no ability)',
+    },
+    spyDummyAgent: {
+        type: 'boolean',
+        default: false,
+        description: 'Add a Spy Dummy Agent (no ability)',
+    },
+};
+
+const getOptions = (room: Room) => room.getExpansionOptions('hunter');
+
+const hunterState = (room: Room) => ensureState(room, 'hunterState', () => ({ hunt: null, result: null, chiefCards: [] }));
+
+function countChiefCard(room: Room, missionIndex: number) {
+    const chiefCards = hunterState(room).chiefCards;
+    chiefCards[missionIndex] = (chiefCards[missionIndex] || 0) + 1;
+}
+
+/**
+ * Resolve the hunt: the hunter names the player they believe is the other team's Chief.
+ * Returns the hunt result, or an error message.
+ */
+function hunt(room: Room, hunterSocketId: string, targetId: string) {
+    const pending = room.hunterState?.hunt;
+    const hunter = findPlayer(room, hunterSocketId);
+    const target = findPlayer(room, targetId);
+
+    if (room.phase !== HUNT_PHASE || !pending) return { error: 'There is no hunt in progress' };
+    if (!hunter || hunter.playerId !== pending.hunterId) return { error: 'Only the Hunter can hunt' };
+    if (!target || target.playerId === hunter.playerId) return { error: 'Choose another player' };
+
+    const success = target.specialRole === pending.chiefRole;
+    // A successful hunt steals the win from the team that completed its missions
+    const winner = success ? hunter.role! : pending.missionWinner;
+    const result = { hunterId: hunter.playerId, targetId: target.playerId, success, winner };
+
+    const state = hunterState(room);
+    state.hunt = null;
+    state.result = result;
+    room.recordEvent('expansion:action', {
+        expansionId: 'hunter',
+        action: 'hunt',
+        actorId: hunter.playerId,
+        targetId: target.playerId,
+        data: { success, winner },
+    });
+    // The game:end hook gives the win to the hunting team on a hit
+    room.endGame(pending.missionWinner);
+
+    return { result, target };
+}
+
+/**
+ * The Hunter let the deadline expire: the hunt is missed and the team that completed its missions wins
+ */
+function miss(room: Room) {
+    const pending = room.hunterState?.hunt;
+    if (room.phase !== HUNT_PHASE || !pending) return;
+
+    hunterState(room).hunt = null;
+    room.recordEvent('expansion:action', { expansionId: 'hunter', action: 'miss', actorId: pending.hunterId });
+    room.endGame(pending.missionWinner);
+}
+
+const announceGameOver = (io: any, room: Room) =>
+    broadcast(io, room, 'game_over', {
+        winner: room.getWinner(),
+        players: room.getRevealedPlayers(),
+    });
+
+/**
+ * Hunter Expansion (The Resistance: Hunter module)
+ *
+ * Adds special roles:
+ * - RESISTANCE_CHIEF / SPY_CHIEF: must play their Chief card on chief missions
+ *   (a success for the Resistance Chief, a fail for the Spy Chief)
+ * - RESISTANCE_HUNTER / SPY_HUNTER: hunt the other team's Chief at the end
+ * - DUMMY_AGENT (optional, one per team): no ability, muddies the claims
+ *
+ * Win condition change:
+ * - When a team completes its 3 missions, the other team's Hunter gets one guess at
+ *   the winning team's Chief (phase HUNT). If they find them, the hunting team wins.
+ * - With Merlin & Assassin, the hunt replaces the assassination (option replaceAssassination)
+ * - A Hunter who lets the phase's deadline expire misses the hunt
+ *
+ * Options: chiefCardMission1-5 pick the chief missions, replaceAssassination, and
+ * resistanceDummyAgent / spyDummyAgent add the Dummy Agents.
+ * Only players without a special role are picked.
+ */
+export const HunterExpansion: ExpansionPlugin = {
+    id: 'hunter',
+    name: 'Hunter',
+    version: '1.0.0',
+    // Each team needs a Chief and a Hunter: two spies at least
+    minPlayers: 5,
+
+    phases: [HUNT_PHASE],
+
+    phaseTimeouts: {
+        [HUNT_PHASE]: {
+            waitingOn: (room) => (room.hunterState?.hunt ? [room.hunterState.hunt.hunterId] : []),
+            apply: miss,
+            announce: (room, io) => {
+                broadcast(io, room, 'hunt_result', { success: false, targetId: null, phase: room.phase });
+                announceGameOver(io, room);
+            },
+        },
+    },
+
+    options: HUNTER_OPTIONS,
+
+    install(hookManager: HookManager) {
+        console.log('[Hunter] Installing expansion...');
+
+        // Hook: Assign Chiefs, Hunters and Dummy Agents after base roles are assigned
+        hookManager.register('roles:assign', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+            const options = getOptions(room);
+
+            const assign = (team: Role, specialRoles: SpecialRole[]) => {
+                specialRoles.forEach(specialRole => {
+                    const candidates = room.players.filter((p) => p.role === team && !p.specialRole);
+                    if (candidates.length === 0) return;
+                    const player = candidates[rng.int(candidates.length)];
+                    player.specialRole = specialRole;
+                });
+            };
+
+            assign('RESISTANCE', ['RESISTANCE_CHIEF', 'RESISTANCE_HUNTER', ...(options.resistanceDummyAgent ? ['DUMMY_AGENT' as const] : [])]);
+            assign('SPY', ['SPY_CHIEF', 'SPY_HUNTER', ...(options.spyDummyAgent ? ['DUMMY_AGENT' as const] : [])]);
+
+            room.hunterState = { hunt: null, result: null, chiefCards: [] };
+            room.recordEvent('expansion:action', { expansionId: 'hunter', action: 'setup' });
+
+            return context;
+        });
+
+        // Hook: Chiefs on a chief mission must play their Chief card
+        hookManager.register('mission:submit', (context) => {
+            const { room, playerId } = context;
+            const player = findPlayer(room, playerId);
+            const chiefCard = !!room.hunterState &&
+                (player?.specialRole === 'RESISTANCE_CHIEF' || player?.specialRole === 'SPY_CHIEF') &&
+                !!getOptions(room)[`chiefCardMission${room.currentMissionIndex + 1}`];
+            if (!chiefCard) return context;
+
+            context.success = player.specialRole === 'RESISTANCE_CHIEF';
+            // A card sent again replaces the first one: the Chief card is only counted once
+            if (!room.missionActions.has(player.playerId)) {
+                countChiefCard(room, room.currentMissionIndex);
+                // Only counted: who played it would tell the Hunters who the Chiefs are
+                room.recordEvent('expansion:action', {
+                    expansionId: 'hunter',
+                    action: 'chief-card',
+                    data: { missionIndex: room.currentMissionIndex },
+                });
+            }
+
+            return context;
+        });
+
+        // Hook: Hunt instead of ending the game (or instead of the assassination)
+        hookManager.register('mission:resolve', (context) => {
+            const { room, nextPhase } = context;
+            const state = room.hunterState;
+            if (!state) return context;
+
+            const ending = nextPhase === 'GAME_OVER' ||
+                (nextPhase === 'ASSASSINATION' && getOptions(room).replaceAssassination);
+            if (!ending) return context;
+
+            // The team that completed its missions is hunted by the other team's Hunter
+            const missionWinner = room.succeededMissions >= MISSIONS_TO_SUCCEED ? 'RESISTANCE' : 'SPY';
+            const chiefRole = missionWinner === 'RESISTANCE' ? 'RESISTANCE_CHIEF' : 'SPY_CHIEF';
+            const hunterRole = missionWinner === 'RESISTANCE' ? 'SPY_HUNTER' : 'RESISTANCE_HUNTER';
+            const hunter = room.players.find((p) => p.specialRole === hunterRole);
+
+            if (hunter && room.players.some((p) => p.specialRole === chiefRole)) {
+                state.hunt = { hunterId: hunter.playerId, chiefRole, missionWinner };
+                room.recordEvent('expansion:action', { expansionId: 'hunter', action: 'hunt-started', actorId: hunter.playerId, data: { chiefRole, missionWinner } });
+                context.nextPhase = HUNT_PHASE;
+            }
+
+            return context;
+        }, { after: ['merlin-assassin'] }); // Sees the assassination it replaces
+
+        // Hook: A hunt has the last word on the winner
+        hookManager.register('game:end', (context) => {
+            const result = context.room.hunterState?.result;
+            if (result) {
+                context.winner = result.winner;
+            }
+            return context;
+        }, { after: ['merlin-assassin'] });
+
+        // Hook: Who is hunting, and how many Chief cards each mission had (public)
+        hookManager.register('state:sync', (context) => {
+            const { room } = context;
+            const state = room.hunterState;
+            if (!state) return context;
+
+            context.state.hunter = {
+                options: getOptions(room),
+                chiefCardsByMission: [0, 1, 2, 3, 4].map(i => state.chiefCards[i] || 0),
+                hunt: state.hunt
+                    ? { hunter: findPlayer(room, state.hunt.hunterId)?.id ?? null, target: state.hunt.chiefRole }
+                    : null,
+                result: state.result
+                    ? {
+                        hunter: findPlayer(room, state.result.hunterId)?.id ?? null,
+                        target: findPlayer(room, state.result.targetId)?.id ?? null,
+                        success: state.result.success,
+                    }
+                    : null,
+            };
+
+            return context;
+        });
+
+        console.log('[Hunter] Expansion installed successfully');
+    },
+
+    registerSocketHandlers(socket: any, room: Room, io: any) {
+        // Hunter names the other team's Chief
+        socket.on('hunter:hunt', ({ targetId }: { targetId: string }) => {
+            const outcome = hunt(room, socket.id, targetId);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            broadcast(io, room, 'hunt_result', {
+                success: outcome.result.success,
+                targetId: outcome.target.id,
+                phase: room.phase,
+            });
+            announceGameOver(io, room);
+        });
+    },
+
+    serializeState(room: Room) {
+        return room.hunterState || null;
+    },
+
+    restoreState(room: Room, state: any) {
+        if (state) {
+            room.hunterState = state;
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        const { action, actorId, targetId, data } = event.payload;
+
+        if (action === 'setup') {
+            room.hunterState = { hunt: null, result: null, chiefCards: [] };
+        } else if (action === 'chief-card') {
+            countChiefCard(room, data?.missionIndex);
+        } else if (action === 'hunt-started' && actorId) {
+            hunterState(room).hunt = { hunterId: actorId, chiefRole: data?.chiefRole, missionWinner: data?.missionWinner };
+        } else if (action === 'hunt' && actorId && targetId) {
+            const state = hunterState(room);
+            state.result = { hunterId: actorId, targetId, success: data?.success, winner: data?.winner };
+            state.hunt = null;
+        } else if (action === 'miss') {
+            hunterState(room).hunt = null;
+        }
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[Hunter] Uninstalling expansion...');
+        hookManager.unregisterOwner('hunter');
+    }
+};
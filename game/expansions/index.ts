@@ -1,6 +1,13 @@
 import { MerlinAssassinExpansion } from './merlin-assassin'
 import { BlindSpiesExpansion } from './blind-spies'
 import { InquisidorExpansion } from './inquisidor'
+import { PercivalMorganaExpansion } from './percival-morgana'
+import { MordredOberonExpansion } from './mordred-oberon'
+import { LadyOfTheLakeExpansion } from './lady-of-the-lake'
+import { PlotCardsExpansion } from './plot-cards'
+import { HunterExpansion } from './hunter'
+import { ExcaliburExpansion } from './excalibur'
+import { LancelotExpansion } from './lancelot'
 
 /**
  * Central registry of all available expansions
@@ -11,6 +18,13 @@ export const AVAILABLE_EXPANSIONS = {
     'merlin-assassin': MerlinAssassinExpansion,
     'blind-spies': BlindSpiesExpansion,
     'inquisidor': InquisidorExpansion,
+    'percival-morgana': PercivalMorganaExpansion,
+    'mordred-oberon': MordredOberonExpansion,
+    'lady-of-the-lake': LadyOfTheLakeExpansion,
+    'plot-cards': PlotCardsExpansion,
+    'hunter': HunterExpansion,
+    'excalibur': ExcaliburExpansion,
+    'lancelot': LancelotExpansion,
 }
 
 /**
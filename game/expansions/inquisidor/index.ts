@@ -1,5 +1,81 @@
-import { ExpansionPlugin } from '../types'
+import { ExpansionOptionSchema, ExpansionPlugin } from '../types'
 import { HookManager } from '../../hooks/HookManager'
+import type { Player, Room } from '../../Room'
+import { announceNewLeader, broadcast, findPlayer, socketIdOf } from '../helpers'
+import { MISSIONS_TO_FAIL, MISSIONS_TO_SUCCEED } from '../../constants'
+
+export const INQUISITOR_PHASE = 'INQUISITOR_INVESTIGATION'
+
+// Token holder and investigations (playerIds)
+export interface InquisitorState {
+    tokenHolder: string
+    lastInvestigated: string | null
+    investigationHistory: Array<{ investigator: string; target: string; timestamp: number }>
+}
+
+declare module '../../Room' {
+    interface GamePhaseRegistry {
+        INQUISITOR_INVESTIGATION: true
+    }
+
+    interface Room {
+        inquisitorState?: InquisitorState | null
+    }
+}
+
+// Options the host may set on create_room
+const INQUISIDOR_OPTIONS: Record<string, ExpansionOptionSchema> = {
+    revealLoyaltyOnly: {
+        type: 'boolean',
+        default: false,
+        description: 'The investigator learns the team (Resistance or spy) but not the special role'
+    },
+    skipAfterFinalMission: {
+        type: 'boolean',
+        default: false,
+        description: 'No investigation once only the final mission is left to play'
+    }
+}
+
+// Connection listeners added to io by install(), by room hook manager (removed by uninstall)
+const connectionListeners = new WeakMap<HookManager, { io: any; listener: (socket: any) => void }>()
+
+/**
+ * What the investigator learns about the target: the team, and the special role
+ * unless the room plays with revealLoyaltyOnly
+ */
+const investigate = (room: Room, target: Player) =>
+    room.getExpansionOptions('inquisidor').revealLoyaltyOnly
+        ? { role: target.role }
+        : { role: target.role, specialRole: target.specialRole || null }
+
+/**
+ * End the investigation phase: the next leader's turn, or the end of the game once its missions are decided
+ */
+function endInvestigation(room: Room) {
+    const succeeded = room.succeededMissions >= MISSIONS_TO_SUCCEED
+    if (succeeded || room.failedMissions >= MISSIONS_TO_FAIL) {
+        room.phase = 'GAME_OVER'
+        room.winner = succeeded ? 'RESISTANCE' : 'SPY'
+        room.recordEvent('expansion:action', { expansionId: 'inquisidor', action: 'end-investigation', phase: 'GAME_OVER' })
+        room.touch()
+    } else {
+        room.recordEvent('expansion:action', { expansionId: 'inquisidor', action: 'end-investigation' })
+        room.nextTurn()
+    }
+}
+
+function announceEndOfInvestigation(io: any, room: Room) {
+    if (room.phase === 'GAME_OVER') {
+        broadcast(io, room, 'game_over', {
+            winner: room.getWinner(),
+            players: room.getRevealedPlayers()
+        })
+    } else {
+        broadcast(io, room, 'phase_change', { phase: 'TEAM_SELECTION' })
+        announceNewLeader(io, room)
+    }
+}
 
 /**
  * Inquisidor Expansion
@@ -9,6 +85,10 @@ import { HookManager } from '../../hooks/HookManager'
  * - After each mission, token holder investigates one player's role (secret)
  * - Token passes to investigated player
  * - Cannot investigate same player twice consecutively
+ * - If the phase's deadline expires, the investigation is skipped
+ *
+ * Options: revealLoyaltyOnly hides the special role from investigations,
+ * skipAfterFinalMission drops the investigation before the final mission.
  * 
  * State Persistence:
  * - We store 'playerId' (UUID) in server state to persist across reconnections (socket changes).
@@ -18,27 +98,35 @@ export const InquisidorExpansion: ExpansionPlugin = {
     id: 'inquisidor',
     name: 'Inquisidor',
     version: '1.0.0',
+    // Both hand out an investigation token after the missions
+    conflictsWith: ['lady-of-the-lake'],
+
+    phases: [INQUISITOR_PHASE],
+
+    phaseTimeouts: {
+        [INQUISITOR_PHASE]: {
+            waitingOn: (room) => (room.inquisitorState ? [room.inquisitorState.tokenHolder] : []),
+            apply: endInvestigation,
+            announce: (room, io) => announceEndOfInvestigation(io, room)
+        }
+    },
+
+    options: INQUISIDOR_OPTIONS,
 
     install(hookManager: HookManager, io?: any) {
         console.log('[Inquisidor] Installing expansion...')
 
         let ioInstance = io
 
-        // Helper to get socket ID from UUID
-        const getSocketId = (room: any, playerId: string | null) => {
-            if (!playerId) return null
-            return room.players.find((p: any) => p.playerId === playerId)?.id || null
-        }
-
         if (ioInstance) {
-            ioInstance.on('connection', (socket: any) => {
+            const onConnection = (socket: any) => {
                 // Handle client requests for initial token state
                 socket.on('get-inquisitor-token', () => {
-                    const room = socket.room
+                    const room: Room | undefined = socket.room
                     if (room && room.inquisitorState) {
                         // Store: UUID -> Send: SocketID
-                        const holderSocketId = getSocketId(room, room.inquisitorState.tokenHolder)
-                        const lastInvestigatedSocketId = getSocketId(room, room.inquisitorState.lastInvestigated)
+                        const holderSocketId = socketIdOf(room, room.inquisitorState.tokenHolder)
+                        const lastInvestigatedSocketId = socketIdOf(room, room.inquisitorState.lastInvestigated)
 
                         socket.emit('inquisitor:token-passed', {
                             newTokenHolder: holderSocketId,
@@ -50,11 +138,11 @@ export const InquisidorExpansion: ExpansionPlugin = {
 
                 // Listen for game start to broadcast initial token
                 socket.on('start_game', () => {
-                    const room = socket.room
+                    const room: Room | undefined = socket.room
                     if (room && room.inquisitorState) {
-                        const holderSocketId = getSocketId(room, room.inquisitorState.tokenHolder)
+                        const holderSocketId = socketIdOf(room, room.inquisitorState.tokenHolder)
                         setTimeout(() => {
-                            ioInstance.to(room.id).emit('inquisitor:token-passed', {
+                            broadcast(ioInstance, room, 'inquisitor:token-passed', {
                                 newTokenHolder: holderSocketId,
                                 investigatedPlayer: null
                             })
@@ -64,46 +152,22 @@ export const InquisidorExpansion: ExpansionPlugin = {
                 })
 
                 socket.on('inquisitor:end-investigation', () => {
-                    const room = socket.room
-                    if (room && room.phase === 'INQUISITOR_INVESTIGATION') {
-                        if (room.succeededMissions >= 3) {
-                            room.phase = 'GAME_OVER'
-                            room.winner = 'RESISTANCE'
-                            ioInstance.to(room.id).emit('game_over', {
-                                winner: 'RESISTANCE',
-                                players: room.players
-                            })
-                        } else if (room.failedMissions >= 3) {
-                            room.phase = 'GAME_OVER'
-                            room.winner = 'SPY'
-                            ioInstance.to(room.id).emit('game_over', {
-                                winner: 'SPY',
-                                players: room.players
-                            })
-                        } else {
-                            // Start next round
-                            room.nextTurn()
-
-                            // Notify clients
-                            ioInstance.to(room.id).emit('phase_change', { phase: 'TEAM_SELECTION' })
-                            ioInstance.to(room.id).emit('new_leader', {
-                                currentLeader: room.players[room.currentLeaderIndex],
-                                missionIndex: room.currentMissionIndex,
-                                missionSize: room.getCurrentMissionSize()
-                            })
-                        }
+                    const room: Room | undefined = socket.room
+                    if (room && room.phase === INQUISITOR_PHASE) {
+                        endInvestigation(room)
+                        announceEndOfInvestigation(ioInstance, room)
                     }
                 })
 
                 socket.on('inquisitor:investigate', ({ targetId }: { targetId: string }) => {
-                    const room = socket.room
+                    const room: Room | undefined = socket.room
                     if (!room || !room.inquisitorState) {
                         console.error('[Inquisidor] Investigation failed: no room or inquisitor state')
                         return
                     }
 
                     // 1. Identify Investigator (Current Socket)
-                    const investigator = room.players.find((p: any) => p.id === socket.id)
+                    const investigator = room.players.find((p) => p.id === socket.id)
                     if (!investigator) {
                         console.error('[Inquisidor] Investigation failed: investigator not found')
                         return
@@ -118,7 +182,7 @@ export const InquisidorExpansion: ExpansionPlugin = {
                     }
 
                     // 3. Identify Target (Socket ID -> Player Object -> UUID)
-                    const target = room.players.find((p: any) => p.id === targetId || p.playerId === targetId)
+                    const target = findPlayer(room, targetId)
                     if (target) {
                         console.log(`[Inquisidor] Investigate target resolved: ${target.nickname} (${target.playerId} -> ${target.id})`)
                     }
@@ -141,11 +205,11 @@ export const InquisidorExpansion: ExpansionPlugin = {
                     }
 
                     // 5. Perform Investigation
+                    const findings = investigate(room, target)
                     const investigationResult = {
                         targetId: target.id, // Client needs Socket ID for UI
                         targetNickname: target.nickname,
-                        role: target.role,
-                        specialRole: target.specialRole || null
+                        ...findings
                     }
 
                     console.log(`[Inquisidor] ${investigator.nickname} investigated ${target.nickname}`)
@@ -162,23 +226,35 @@ export const InquisidorExpansion: ExpansionPlugin = {
                         timestamp: Date.now()
                     })
 
+                    room.recordEvent('expansion:action', {
+                        expansionId: 'inquisidor',
+                        action: 'investigate',
+                        actorId: investigator.playerId,
+                        targetId: target.playerId,
+                        data: findings
+                    })
+                    room.touch()
+
                     // 7. Notify all players (Send Socket IDs)
-                    ioInstance.to(room.id).emit('inquisitor:token-passed', {
+                    broadcast(ioInstance, room, 'inquisitor:token-passed', {
                         newTokenHolder: target.id, // Send Socket ID
                         investigatedPlayer: target.id // Send Socket ID
                     })
 
                     console.log(`[Inquisidor] Token passed from ${investigator.nickname} to ${target.nickname}`)
                 })
-            })
+            }
+            ioInstance.on('connection', onConnection)
+            connectionListeners.set(hookManager, { io: ioInstance, listener: onConnection })
         }
 
         // Hook: Initialize token holder at game start
         hookManager.register('game:start', (context) => {
             const { room } = context
 
-            // Select random player to start with token
-            const randomIdx = Math.floor(Math.random() * room.players.length)
+            // Select random player to start with token (seeded room RNG)
+            const rng = context.rng || room.rng
+            const randomIdx = rng.int(room.players.length)
             const initialHolder = room.players[randomIdx]
 
             // Initialize inquisitor state (Store UUIDs)
@@ -190,16 +266,16 @@ export const InquisidorExpansion: ExpansionPlugin = {
 
             console.log(`[Inquisidor] Initial token holder: ${initialHolder.nickname} (${initialHolder.playerId})`)
 
-            // Add token state to context (Convert to SocketID for client)
-            context.inquisitorToken = {
-                holder: initialHolder.id,
-                lastInvestigated: null
-            }
+            room.recordEvent('expansion:action', {
+                expansionId: 'inquisidor',
+                action: 'token-assigned',
+                targetId: initialHolder.playerId
+            })
 
             // Allow time for game_started to be sent, then broadcast token (redundancy)
             if (ioInstance && room.id) {
                 setTimeout(() => {
-                    ioInstance.to(room.id).emit('inquisitor:token-passed', {
+                    broadcast(ioInstance, room, 'inquisitor:token-passed', {
                         newTokenHolder: initialHolder.id, // Socket ID
                         investigatedPlayer: null
                     })
@@ -215,9 +291,11 @@ export const InquisidorExpansion: ExpansionPlugin = {
             const { room, nextPhase } = context
 
             // Only add investigation phase if game continues (not ending)
-            if (nextPhase !== 'GAME_OVER' && nextPhase !== 'ASSASSINATION') {
+            if (room.getExpansionOptions('inquisidor').skipAfterFinalMission && room.getOpenMissions().length <= 1) {
+                console.log('[Inquisidor] Only the final mission is left, skipping investigation phase')
+            } else if (nextPhase !== 'GAME_OVER' && nextPhase !== 'ASSASSINATION') {
                 console.log('[Inquisidor] Mission resolved, adding INQUISITOR_INVESTIGATION phase')
-                context.nextPhase = 'INQUISITOR_INVESTIGATION'
+                context.nextPhase = INQUISITOR_PHASE
             } else {
                 console.log(`[Inquisidor] Skipping investigation phase, game ending with ${nextPhase}`)
             }
@@ -227,13 +305,14 @@ export const InquisidorExpansion: ExpansionPlugin = {
 
         // Hook: Sync token state to all players
         hookManager.register('state:sync', (context) => {
-            const { room, state } = context
+            const { room } = context
+            const inquisitorState = room.inquisitorState
 
             // Add token state (visible to all)
-            if (room.inquisitorState) {
+            if (inquisitorState) {
                 // Convert stored UUIDs to Socket IDs for client state
-                const holder = room.players.find((p: any) => p.playerId === room.inquisitorState.tokenHolder)
-                const investigated = room.players.find((p: any) => p.playerId === room.inquisitorState.lastInvestigated)
+                const holder = room.players.find((p) => p.playerId === inquisitorState.tokenHolder)
+                const investigated = room.players.find((p) => p.playerId === inquisitorState.lastInvestigated)
 
                 context.state.inquisitorToken = {
                     holder: holder ? holder.id : null,
@@ -248,7 +327,7 @@ export const InquisidorExpansion: ExpansionPlugin = {
         console.log('[Inquisidor] Expansion installed successfully')
     },
 
-    registerSocketHandlers(socket: any, room: any, io: any) {
+    registerSocketHandlers(socket: any, room: Room, io: any) {
         //  Handle investigation
         socket.on('inquisitor:investigate', ({ targetId }: { targetId: string }) => {
             if (!room || !room.inquisitorState) {
@@ -256,7 +335,7 @@ export const InquisidorExpansion: ExpansionPlugin = {
                 return
             }
 
-            const investigator = room.players.find((p: any) => p.id === socket.id)
+            const investigator = room.players.find((p) => p.id === socket.id)
             if (!investigator) {
                 console.error('[Inquisidor] Investigation failed: investigator not found')
                 return
@@ -268,7 +347,7 @@ export const InquisidorExpansion: ExpansionPlugin = {
                 return
             }
 
-            const target = room.players.find((p: any) => p.id === targetId || p.playerId === targetId)
+            const target = findPlayer(room, targetId)
             if (target) {
                 console.log(`[Inquisidor] Investigate target resolved: ${target.nickname} (${target.playerId} -> ${target.id})`)
             }
@@ -289,11 +368,11 @@ export const InquisidorExpansion: ExpansionPlugin = {
                 return
             }
 
+            const findings = investigate(room, target)
             const investigationResult = {
                 targetId: target.id,
                 targetNickname: target.nickname,
-                role: target.role,
-                specialRole: target.specialRole || null
+                ...findings
             }
 
             console.log(`[Inquisidor] ${investigator.nickname} investigated ${target.nickname}`)
@@ -307,7 +386,16 @@ export const InquisidorExpansion: ExpansionPlugin = {
                 timestamp: Date.now()
             })
 
-            io.to(room.id).emit('inquisitor:token-passed', {
+            room.recordEvent('expansion:action', {
+                expansionId: 'inquisidor',
+                action: 'investigate',
+                actorId: investigator.playerId,
+                targetId: target.playerId,
+                data: findings
+            })
+            room.touch()
+
+            broadcast(io, room, 'inquisitor:token-passed', {
                 newTokenHolder: target.id,
                 investigatedPlayer: target.id
             })
@@ -317,45 +405,51 @@ export const InquisidorExpansion: ExpansionPlugin = {
 
         // Handle end of investigation phase
         socket.on('inquisitor:end-investigation', () => {
-            if (room && room.phase === 'INQUISITOR_INVESTIGATION') {
-                if (room.succeededMissions >= 3) {
-                    room.phase = 'GAME_OVER'
-                    io.to(room.id).emit('game_over', {
-                        winner: 'RESISTANCE',
-                        players: room.players.map((p: any) => ({
-                            id: p.id,
-                            nickname: p.nickname,
-                            role: p.role,
-                            specialRole: p.specialRole || null,
-                        }))
-                    })
-                } else if (room.failedMissions >= 3) {
-                    room.phase = 'GAME_OVER'
-                    io.to(room.id).emit('game_over', {
-                        winner: 'SPY',
-                        players: room.players.map((p: any) => ({
-                            id: p.id,
-                            nickname: p.nickname,
-                            role: p.role,
-                            specialRole: p.specialRole || null,
-                        }))
-                    })
-                } else {
-                    room.nextTurn()
-                    io.to(room.id).emit('phase_change', { phase: 'TEAM_SELECTION' })
-                    io.to(room.id).emit('new_leader', {
-                        currentLeader: room.players[room.currentLeaderIndex],
-                        missionIndex: room.currentMissionIndex,
-                        missionSize: room.getCurrentMissionSize()
-                    })
-                }
+            if (room && room.phase === INQUISITOR_PHASE) {
+                endInvestigation(room)
+                announceEndOfInvestigation(io, room)
             }
         })
     },
 
+    serializeState(room: Room) {
+        return room.inquisitorState || null
+    },
+
+    restoreState(room: Room, state: InquisitorState | null) {
+        if (state) {
+            room.inquisitorState = state
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        const { action, actorId, targetId } = event.payload
+
+        if (action === 'token-assigned' && targetId) {
+            room.inquisitorState = {
+                tokenHolder: targetId,
+                lastInvestigated: null,
+                investigationHistory: []
+            }
+        } else if (action === 'investigate' && room.inquisitorState && actorId && targetId) {
+            room.inquisitorState.tokenHolder = targetId
+            room.inquisitorState.lastInvestigated = targetId
+            room.inquisitorState.investigationHistory.push({
+                investigator: actorId,
+                target: targetId,
+                timestamp: event.timestamp
+            })
+        }
+    },
+
     uninstall(hookManager: HookManager) {
         console.log('[Inquisidor] Uninstalling expansion...')
-        // Hooks are automatically cleared by HookManager
-        // Socket events would need to be removed if we track them
+        hookManager.unregisterOwner('inquisidor')
+
+        const connection = connectionListeners.get(hookManager)
+        if (connection) {
+            connection.io.off?.('connection', connection.listener)
+            connectionListeners.delete(hookManager)
+        }
     }
 }
@@ -0,0 +1,279 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+import type { Player, Room } from '../../Room';
+import { announceNewLeader, broadcast, findPlayer, socketIdOf } from '../helpers';
+
+export const LADY_OF_THE_LAKE_PHASE = 'LADY_OF_THE_LAKE';
+
+declare module '../../Room' {
+    interface GamePhaseRegistry {
+        LADY_OF_THE_LAKE: true;
+    }
+
+    interface Room {
+        ladyOfTheLakeState?: LadyOfTheLakeState | null;
+    }
+}
+
+// Number of resolved missions after which the Lady is used (after missions 2, 3 and 4)
+const LADY_AFTER_MISSIONS = [2, 3, 4];
+
+type Loyalty = 'RESISTANCE' | 'SPY';
+
+// Token holder and examinations (playerIds); claims are what examiners announced
+export interface LadyOfTheLakeState {
+    holder: string;
+    previousHolders: string[];
+    examinations: Array<{ examiner: string; target: string; loyalty: Loyalty; claim: Loyalty | null }>;
+}
+
+/**
+ * Examine a player with the Lady: validate, pass the token on and record it.
+ * Returns the examined player and their loyalty, or an error message.
+ */
+function examine(room: Room, examinerSocketId: string, targetId: string): { target: Player; loyalty: Loyalty } | { error: string } {
+    const state = room.ladyOfTheLakeState;
+    if (!state || room.phase !== LADY_OF_THE_LAKE_PHASE) return { error: 'The Lady of the Lake cannot be used now' };
+
+    const examiner = findPlayer(room, examinerSocketId);
+    if (!examiner || state.holder !== examiner.playerId) return { error: 'You do not hold the Lady of the Lake' };
+
+    const target = findPlayer(room, targetId);
+    if (!target) return { error: 'Player not found' };
+    if (target.playerId === examiner.playerId) return { error: 'You cannot examine yourself' };
+    if (state.previousHolders.includes(target.playerId)) {
+        return { error: 'You cannot examine a player who has held the Lady of the Lake' };
+    }
+
+    const loyalty: Loyalty = target.role === 'SPY' ? 'SPY' : 'RESISTANCE';
+    state.holder = target.playerId;
+    state.previousHolders.push(target.playerId);
+    state.examinations.push({ examiner: examiner.playerId, target: target.playerId, loyalty, claim: null });
+
+    room.recordEvent('expansion:action', {
+        expansionId: 'lady-of-the-lake',
+        action: 'examine',
+        actorId: examiner.playerId,
+        targetId: target.playerId,
+        data: { loyalty },
+    });
+    room.touch();
+
+    return { target, loyalty };
+}
+
+/**
+ * Let the last examiner end the phase, optionally announcing (truthfully or not) what they saw.
+ * Returns the announced claim (null when they stay silent), or an error message.
+ */
+function finish(room: Room, examinerSocketId: string, claim: unknown): { claim: Loyalty | null } | { error: string } {
+    const state = room.ladyOfTheLakeState;
+    const last = state?.examinations[state.examinations.length - 1];
+    const examiner = findPlayer(room, examinerSocketId);
+
+    if (!state || room.phase !== LADY_OF_THE_LAKE_PHASE) return { error: 'The Lady of the Lake cannot be used now' };
+    if (!last || last.target !== state.holder || !examiner || last.examiner !== examiner.playerId) {
+        return { error: 'Only the player who used the Lady of the Lake can end this phase' };
+    }
+    if (claim !== undefined && claim !== null && claim !== 'RESISTANCE' && claim !== 'SPY') {
+        return { error: 'A claim must be RESISTANCE or SPY' };
+    }
+
+    if (claim) {
+        last.claim = claim;
+        room.recordEvent('expansion:action', {
+            expansionId: 'lady-of-the-lake',
+            action: 'claim',
+            actorId: last.examiner,
+            targetId: last.target,
+            data: { claim },
+        });
+    }
+
+    room.recordEvent('expansion:action', { expansionId: 'lady-of-the-lake', action: 'end', phase: 'TEAM_SELECTION' });
+    room.nextTurn();
+    room.touch();
+
+    return { claim: (claim as Loyalty) || null };
+}
+
+/**
+ * End the phase once its deadline expired: whatever was not done (examination, claim) is skipped
+ */
+function expire(room: Room) {
+    room.recordEvent('expansion:action', { expansionId: 'lady-of-the-lake', action: 'end', phase: 'TEAM_SELECTION' });
+    room.nextTurn();
+}
+
+// The game goes on with the next leader
+function announceNextTurn(io: any, room: Room) {
+    broadcast(io, room, 'phase_change', { phase: 'TEAM_SELECTION' });
+    announceNewLeader(io, room);
+}
+
+/**
+ * Lady of the Lake Expansion
+ *
+ * Adds the Lady of the Lake token (Avalon):
+ * - One player holds the token from the start (visible to all)
+ * - After missions 2, 3 and 4 (if the game goes on), the holder examines another
+ *   player and privately learns their loyalty only (RESISTANCE or SPY, never the special role)
+ * - The token passes to the examined player; nobody who has held it can be examined
+ * - The examiner may then publicly announce a claim about what they saw; it is recorded
+ *   in the game log, but nothing checks that it is true
+ *
+ * Unlike Inquisidor, the Lady is not used after every mission and never reveals special roles.
+ * When the phase's deadline expires, it ends without an examination or a claim.
+ */
+export const LadyOfTheLakeExpansion: ExpansionPlugin = {
+    id: 'lady-of-the-lake',
+    name: 'Lady of the Lake',
+    version: '1.0.0',
+    conflictsWith: ['inquisidor'],
+
+    phases: [LADY_OF_THE_LAKE_PHASE],
+
+    phaseTimeouts: {
+        [LADY_OF_THE_LAKE_PHASE]: {
+            // The examiner who has yet to announce, or else the holder who has yet to examine
+            waitingOn: (room) => {
+                const state = room.ladyOfTheLakeState;
+                const last = state?.examinations[state.examinations.length - 1];
+                if (!state) return [];
+                return [last && last.target === state.holder ? last.examiner : state.holder];
+            },
+            apply: (room) => expire(room),
+            announce: (room, io) => announceNextTurn(io, room),
+        },
+    },
+
+    install(hookManager: HookManager) {
+        console.log('[LadyOfTheLake] Installing expansion...');
+
+        // Hook: Give the token to a random player at game start
+        hookManager.register('game:start', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+            const holder = room.players[rng.int(room.players.length)];
+
+            room.ladyOfTheLakeState = {
+                holder: holder.playerId,
+                previousHolders: [holder.playerId],
+                examinations: [],
+            };
+
+            room.recordEvent('expansion:action', {
+                expansionId: 'lady-of-the-lake',
+                action: 'token-assigned',
+                targetId: holder.playerId,
+            });
+
+            return context;
+        });
+
+        // Hook: Use the Lady after missions 2, 3 and 4 (if the game goes on)
+        hookManager.register('mission:resolve', (context) => {
+            const { room, nextPhase } = context;
+            const resolved = room.getResolvedMissionCount();
+
+            if (
+                room.ladyOfTheLakeState &&
+                nextPhase === 'TEAM_SELECTION' &&
+                LADY_AFTER_MISSIONS.includes(resolved)
+            ) {
+                context.nextPhase = LADY_OF_THE_LAKE_PHASE;
+            }
+
+            return context;
+        });
+
+        // Hook: Public token state for everyone, examination results for the examiner only
+        hookManager.register('state:sync', (context) => {
+            const { room, player } = context;
+            const state = room.ladyOfTheLakeState;
+            if (!state) return context;
+
+            context.state.ladyOfTheLake = {
+                holder: socketIdOf(room, state.holder),
+                previousHolders: state.previousHolders.map((id) => socketIdOf(room, id)),
+                claims: state.examinations
+                    .filter((e) => e.claim)
+                    .map((e) => ({ examiner: socketIdOf(room, e.examiner), target: socketIdOf(room, e.target), claim: e.claim })),
+            };
+
+            if (player) {
+                context.state.ladyOfTheLake.myExaminations = state.examinations
+                    .filter((e) => e.examiner === player.playerId)
+                    .map((e) => ({ targetId: socketIdOf(room, e.target), loyalty: e.loyalty }));
+            }
+
+            return context;
+        });
+
+        console.log('[LadyOfTheLake] Expansion installed successfully');
+    },
+
+    registerSocketHandlers(socket: any, room: Room, io: any) {
+        // Examine a player (token holder only)
+        socket.on('lady:examine', ({ targetId }: { targetId: string }) => {
+            const outcome = examine(room, socket.id, targetId);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            const { target, loyalty } = outcome;
+
+            // Loyalty goes ONLY to the examiner
+            socket.emit('lady:examination-result', { targetId: target.id, targetNickname: target.nickname, loyalty });
+            broadcast(io, room, 'lady:token-passed', { newHolder: target.id, examinedBy: socket.id });
+        });
+
+        // End the phase, optionally announcing a claim about the examined player
+        socket.on('lady:announce', ({ claim }: { claim?: Loyalty | null } = {}) => {
+            const outcome = finish(room, socket.id, claim);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            if (outcome.claim) {
+                const holder = findPlayer(room, room.ladyOfTheLakeState?.holder);
+                broadcast(io, room, 'lady:claim', { examiner: socket.id, target: holder?.id ?? null, claim: outcome.claim });
+            }
+
+            announceNextTurn(io, room);
+        });
+    },
+
+    serializeState(room: Room) {
+        return room.ladyOfTheLakeState || null;
+    },
+
+    restoreState(room: Room, state: any) {
+        if (state) {
+            room.ladyOfTheLakeState = state;
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        const { action, actorId, targetId, data } = event.payload;
+        const state = room.ladyOfTheLakeState;
+
+        if (action === 'token-assigned' && targetId) {
+            room.ladyOfTheLakeState = { holder: targetId, previousHolders: [targetId], examinations: [] };
+        } else if (action === 'examine' && state && actorId && targetId) {
+            state.holder = targetId;
+            state.previousHolders.push(targetId);
+            state.examinations.push({ examiner: actorId, target: targetId, loyalty: data?.loyalty, claim: null });
+        } else if (action === 'claim' && state) {
+            const last = state.examinations[state.examinations.length - 1];
+            if (last) last.claim = data?.claim ?? null;
+        }
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[LadyOfTheLake] Uninstalling expansion...');
+        hookManager.unregisterOwner('lady-of-the-lake');
+    }
+};
@@ -0,0 +1,166 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+import type { Room } from '../../Room';
+import { broadcast } from '../helpers';
+
+export type LoyaltyCard = 'NO_CHANGE' | 'SWITCH';
+
+export interface LancelotState {
+    deck: LoyaltyCard[];
+    drawn: Array<{ missionIndex: number; card: LoyaltyCard }>;
+}
+
+declare module '../../Room' {
+    interface Room {
+        lancelotState?: LancelotState | null;
+    }
+}
+
+// Loyalty deck (Avalon, variant 1): 3 blank cards and 2 switch cards
+const LOYALTY_DECK: LoyaltyCard[] = ['NO_CHANGE', 'NO_CHANGE', 'NO_CHANGE', 'SWITCH', 'SWITCH'];
+
+// A loyalty card is drawn before every mission from this one (1-based) onward
+const FIRST_LOYALTY_MISSION = 3;
+
+const lancelots = (room: Room) =>
+    room.players.filter((p) => p.specialRole === 'GOOD_LANCELOT' || p.specialRole === 'EVIL_LANCELOT');
+
+/**
+ * Draw a loyalty card: the top of the deck, or the recorded card when replaying
+ */
+function draw(room: Room, missionIndex: number, card: LoyaltyCard | undefined = room.lancelotState?.deck[0]): LoyaltyCard | null {
+    const state = room.lancelotState;
+    if (!state || !card) return null;
+    const index = state.deck.indexOf(card);
+    if (index < 0) return null;
+    state.deck.splice(index, 1);
+    state.drawn.push({ missionIndex, card });
+    return card;
+}
+
+/**
+ * Lancelot Expansion (Avalon, variant 1)
+ *
+ * Adds special roles:
+ * - GOOD_LANCELOT: starts with the Resistance
+ * - EVIL_LANCELOT: starts with the spies (and is seen as one)
+ *
+ * Before missions 3, 4 and 5 a loyalty card is drawn publicly. On a SWITCH card both
+ * Lancelots change teams (Room.switchAllegiance): each of them is told privately, and
+ * from then on they win or lose with their new team. Nobody's knowledge changes:
+ * the spies keep seeing the Evil Lancelot they were shown, and not the Good one.
+ */
+export const LancelotExpansion: ExpansionPlugin = {
+    id: 'lancelot',
+    name: 'Lancelot',
+    version: '1.0.0',
+    // A Lancelot on each team, next to Merlin and the Assassin
+    minPlayers: 5,
+
+    install(hookManager: HookManager, io?: any) {
+        console.log('[Lancelot] Installing expansion...');
+
+        // Hook: Assign both Lancelots and shuffle the loyalty deck
+        hookManager.register('roles:assign', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+
+            const pick = (role: string) => {
+                const candidates = room.players.filter((p) => p.role === role && !p.specialRole);
+                return candidates.length > 0 ? candidates[rng.int(candidates.length)] : undefined;
+            };
+            const good = pick('RESISTANCE');
+            const evil = pick('SPY');
+
+            // Lancelots come in pairs: without a free player on each team, neither is used
+            if (!good || !evil) {
+                console.warn('[Lancelot] Not enough players without a special role, Lancelot is not used');
+                room.lancelotState = null;
+                return context;
+            }
+
+            good.specialRole = 'GOOD_LANCELOT';
+            evil.specialRole = 'EVIL_LANCELOT';
+            room.lancelotState = { deck: rng.shuffle(LOYALTY_DECK), drawn: [] };
+            room.recordEvent('expansion:action', {
+                expansionId: 'lancelot',
+                action: 'setup',
+                data: { deck: [...room.lancelotState.deck] },
+            });
+
+            return context;
+        });
+
+        // Hook: Draw a loyalty card before missions 3, 4 and 5, and switch the Lancelots
+        hookManager.register('mission:resolve', (context) => {
+            const { room } = context;
+            const gameGoesOn = room.succeededMissions < 3 && room.failedMissions < 3;
+            const nextMission = room.getResolvedMissionCount() + 1;
+
+            if (!room.lancelotState || !gameGoesOn || nextMission < FIRST_LOYALTY_MISSION) return context;
+
+            const card = draw(room, room.currentMissionIndex);
+            if (!card) return context;
+
+            room.recordEvent('expansion:action', {
+                expansionId: 'lancelot',
+                action: 'draw',
+                data: { card, missionIndex: room.currentMissionIndex },
+            });
+            broadcast(io, room, 'lancelot:loyalty-card', { card, missionIndex: room.currentMissionIndex });
+
+            if (card === 'SWITCH') {
+                lancelots(room).forEach((player) => {
+                    const role = room.switchAllegiance(player.playerId);
+                    if (!role) return;
+                    // Only the Lancelot learns their new team; what they know stays as dealt
+                    io?.to(player.id).emit('lancelot:allegiance-changed', { role });
+                });
+            }
+
+            return context;
+        });
+
+        // Hook: Loyalty cards are public
+        hookManager.register('state:sync', (context) => {
+            const { room } = context;
+            const state = room.lancelotState;
+            if (!state) return context;
+
+            context.state.lancelot = {
+                drawn: state.drawn,
+                remaining: state.deck.length,
+            };
+
+            return context;
+        });
+
+        console.log('[Lancelot] Expansion installed successfully');
+    },
+
+    serializeState(room: Room) {
+        return room.lancelotState || null;
+    },
+
+    restoreState(room: Room, state: any) {
+        if (state) {
+            room.lancelotState = state;
+        }
+    },
+
+    // Allegiance switches are replayed from their own "player:allegiance" events
+    replayEvent(room: Room, event) {
+        const { action, data } = event.payload;
+
+        if (action === 'setup') {
+            room.lancelotState = { deck: [...(data?.deck || [])], drawn: [] };
+        } else if (action === 'draw') {
+            draw(room, data?.missionIndex, data?.card);
+        }
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[Lancelot] Uninstalling expansion...');
+        hookManager.unregisterOwner('lancelot');
+    }
+};
@@ -1,5 +1,75 @@
 import { ExpansionPlugin } from '../types';
 import { HookManager } from '../../hooks/HookManager';
+import type { Player, Room } from '../../Room';
+import { broadcast, findPlayer } from '../helpers';
+
+export const ASSASSINATION_PHASE = 'ASSASSINATION';
+
+// Outcome of the assassination (playerIds)
+export interface AssassinationState {
+    assassinId: string;
+    targetId: string;
+    success: boolean;
+}
+
+declare module '../../Room' {
+    interface GamePhaseRegistry {
+        ASSASSINATION: true;
+    }
+
+    interface Room {
+        assassinationState?: AssassinationState | null;
+    }
+}
+
+/**
+ * The Assassin names the player they believe is Merlin.
+ * Returns the outcome (Merlin's socket id, if any), or an error message.
+ */
+function assassinate(
+    room: Room,
+    assassinSocketId: string,
+    targetId: string
+): { target: Player; success: boolean; merlinId: string | null } | { error: string } {
+    const assassin = room.players.find((p) => p.specialRole === 'ASSASSIN');
+    const target = findPlayer(room, targetId);
+
+    if (room.phase !== ASSASSINATION_PHASE) return { error: 'There is no assassination in progress' };
+    if (!assassin || assassin.id !== assassinSocketId) return { error: 'Apenas o Assassino pode executar esta ação.' };
+    if (!target) return { error: 'Player not found' };
+    if (target.playerId === assassin.playerId) return { error: 'Você não pode se assassinar — humor negro detectado.' };
+
+    const merlin = room.players.find((p) => p.specialRole === 'MERLIN');
+    const success = !!merlin && target.playerId === merlin.playerId;
+
+    room.assassinationState = { assassinId: assassin.playerId, targetId: target.playerId, success };
+    room.recordEvent('expansion:action', {
+        expansionId: 'merlin-assassin',
+        action: 'assassinate',
+        actorId: assassin.playerId,
+        targetId: target.playerId,
+        data: { success, merlinId: merlin?.playerId ?? null },
+    });
+    // Missions were won by the Resistance: the game:end hook gives the win to the spies on a hit
+    room.endGame('RESISTANCE');
+
+    return { target, success, merlinId: merlin?.id ?? null };
+}
+
+/**
+ * The Assassin let the deadline expire: nobody is assassinated and the Resistance keeps its win
+ */
+function pass(room: Room) {
+    const assassin = room.players.find((p) => p.specialRole === 'ASSASSIN');
+    room.recordEvent('expansion:action', { expansionId: 'merlin-assassin', action: 'pass', actorId: assassin?.playerId ?? null });
+    room.endGame('RESISTANCE');
+}
+
+const announceGameOver = (io: any, room: Room) =>
+    broadcast(io, room, 'game_over', {
+        winner: room.getWinner(),
+        players: room.getRevealedPlayers(),
+    });
 
 /**
  * Merlin & Assassin Expansion
@@ -9,38 +79,68 @@ import { HookManager } from '../../hooks/HookManager';
  * - ASSASSIN: Spy who can kill Merlin after 3 successful missions
  * 
  * Win condition change:
- * - If Resistance wins 3 missions, Assassin gets one chance to kill Merlin
- * - If Assassin kills Merlin, Spies win
+ * - If Resistance wins 3 missions, Assassin gets one chance to kill Merlin (phase ASSASSINATION)
+ * - If Assassin kills Merlin, Spies win (game:end hook)
+ * - If the phase's deadline expires, nobody is assassinated and the Resistance wins
+ *
+ * The assassination is only ever exposed in rooms playing with this expansion.
  */
 export const MerlinAssassinExpansion: ExpansionPlugin = {
     id: 'merlin-assassin',
     name: 'Merlin & Assassin',
     version: '1.0.0',
 
+    phases: [ASSASSINATION_PHASE],
+
+    phaseTimeouts: {
+        [ASSASSINATION_PHASE]: {
+            waitingOn: (room) => room.players.filter((p) => p.specialRole === 'ASSASSIN').map((p) => p.playerId),
+            apply: pass,
+            announce: (room, io) => announceGameOver(io, room),
+        },
+    },
+
+    visibilityRules: [
+        {
+            kind: 'spies',
+            effect: 'reveal',
+            description: 'Merlin sees the spies',
+            applies: (viewer, target) => viewer.specialRole === 'MERLIN' && target.role === 'SPY',
+        },
+    ],
+
     install(hookManager: HookManager) {
         console.log('[MerlinAssassin] Installing expansion...');
 
         // Hook: Assign special roles after base roles are assigned
         hookManager.register('roles:assign', (context) => {
             const { room } = context;
+            const rng = context.rng || room.rng;
 
-            const spies = room.players.filter((p: any) => p.role === 'SPY');
-            const resistance = room.players.filter((p: any) => p.role === 'RESISTANCE');
+            // Skip players who already got a special role from another expansion
+            const spies = room.players.filter((p) => p.role === 'SPY' && !p.specialRole);
+            const resistance = room.players.filter((p) => p.role === 'RESISTANCE' && !p.specialRole);
 
             // Assign Merlin to a random Resistance player
             if (resistance.length > 0) {
-                const merlinIdx = Math.floor(Math.random() * resistance.length);
+                const merlinIdx = rng.int(resistance.length);
                 resistance[merlinIdx].specialRole = 'MERLIN';
                 console.log(`[MerlinAssassin] Assigned MERLIN to ${resistance[merlinIdx].nickname}`);
             }
 
             // Assign Assassin to a random Spy
             if (spies.length > 0) {
-                const assassinIdx = Math.floor(Math.random() * spies.length);
+                const assassinIdx = rng.int(spies.length);
                 spies[assassinIdx].specialRole = 'ASSASSIN';
                 console.log(`[MerlinAssassin] Assigned ASSASSIN to ${spies[assassinIdx].nickname}`);
             }
 
+            // A new game: forget the previous game's assassination
+            if (room.assassinationState) {
+                room.assassinationState = null;
+                room.recordEvent('expansion:action', { expansionId: 'merlin-assassin', action: 'reset' });
+            }
+
             return context;
         });
 
@@ -51,25 +151,30 @@ export const MerlinAssassinExpansion: ExpansionPlugin = {
             // If Resistance is about to win (3 successful missions)
             if (room.succeededMissions >= 3 && nextPhase === 'GAME_OVER') {
                 console.log('[MerlinAssassin] Resistance won 3 missions, starting ASSASSINATION phase');
-                context.nextPhase = 'ASSASSINATION';
+                context.nextPhase = ASSASSINATION_PHASE;
             }
 
             return context;
         });
 
-        // Hook: Add spies visibility for MERLIN in state sync
-        hookManager.register('state:sync', (context) => {
-            const { player, state, room } = context;
+        // Hook: A successful assassination steals the win from the Resistance
+        hookManager.register('game:end', (context) => {
+            const { room } = context;
+            if (room.assassinationState?.success) {
+                context.winner = 'SPY';
+            }
+            return context;
+        });
 
-            // Merlin can see all spies
-            if (player.specialRole === 'MERLIN') {
-                const spiesList = room.players
-                    .filter((p: any) => p.role === 'SPY')
-                    .map((p: any) => ({ id: p.id, nickname: p.nickname }));
+        // Hook: Who the Assassin is and whom they picked, once the assassination has started
+        hookManager.register('state:sync', (context) => {
+            const { room } = context;
+            const state = room.assassinationState;
+            if (room.phase !== ASSASSINATION_PHASE && !state) return context;
 
-                context.state.spies = spiesList;
-                console.log(`[MerlinAssassin] Showing ${spiesList.length} spies to MERLIN`);
-            }
+            const assassin = room.players.find((p) => p.specialRole === 'ASSASSIN');
+            context.state.assassinId = assassin?.id || null;
+            context.state.assassinationTarget = state ? findPlayer(room, state.targetId)?.id ?? null : null;
 
             return context;
         });
@@ -77,9 +182,47 @@ export const MerlinAssassinExpansion: ExpansionPlugin = {
         console.log('[MerlinAssassin] Expansion installed successfully');
     },
 
+    registerSocketHandlers(socket: any, room: Room, io: any) {
+        // Assassin names Merlin during the ASSASSINATION phase
+        socket.on('assassinate', ({ targetId }: { targetId: string }) => {
+            const outcome = assassinate(room, socket.id, targetId);
+            if ('error' in outcome) {
+                socket.emit('assassination_error', { message: outcome.error });
+                return;
+            }
+
+            broadcast(io, room, 'assassination_result', {
+                success: outcome.success,
+                merlinId: outcome.merlinId,
+                targetId: outcome.target.id, // Include targetId so all clients know who was picked
+                phase: room.phase,
+            });
+            announceGameOver(io, room);
+        });
+    },
+
+    serializeState(room: Room) {
+        return room.assassinationState || null;
+    },
+
+    restoreState(room: Room, state: AssassinationState | null) {
+        if (state) {
+            room.assassinationState = state;
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        const { action, actorId, targetId, data } = event.payload;
+
+        if (action === 'assassinate' && actorId && targetId) {
+            room.assassinationState = { assassinId: actorId, targetId, success: !!data?.success };
+        } else if (action === 'reset') {
+            room.assassinationState = null;
+        }
+    },
+
     uninstall(hookManager: HookManager) {
         console.log('[MerlinAssassin] Uninstalling expansion...');
-        // Hooks are automatically cleared by HookManager when needed
-        // No additional cleanup required
+        hookManager.unregisterOwner('merlin-assassin');
     }
 };
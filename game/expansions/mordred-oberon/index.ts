@@ -0,0 +1,81 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+
+/**
+ * Mordred & Oberon Expansion
+ *
+ * Adds hidden spy roles:
+ * - MORDRED: Spy who is hidden from Merlin (the other spies still know him)
+ * - OBERON: Spy who does not know the other spies, and whom they do not know
+ *
+ * Both are "hide" visibility rules, so they win over the base game (spies know
+ * each other) and Merlin & Assassin (Merlin sees the spies) whatever the install order.
+ *
+ * Compatibility:
+ * - Meant to be played with Merlin & Assassin (Mordred only matters if there is a Merlin)
+ * - Compatible with Blind Spies (which hides every spy from the spies anyway)
+ * - Only spies without a special role are picked, and a spy is kept free for the
+ *   Assassin and Morgana when their expansions have not assigned them yet
+ */
+export const MordredOberonExpansion: ExpansionPlugin = {
+    id: 'mordred-oberon',
+    name: 'Mordred & Oberon',
+    version: '1.0.0',
+
+    visibilityRules: [
+        {
+            kind: 'spies',
+            effect: 'hide',
+            description: 'Merlin does not see Mordred',
+            applies: (viewer, target) => viewer.specialRole === 'MERLIN' && target.specialRole === 'MORDRED',
+        },
+        {
+            kind: 'spies',
+            effect: 'hide',
+            description: 'Oberon does not see the other spies',
+            applies: (viewer) => viewer.specialRole === 'OBERON',
+        },
+        {
+            kind: 'spies',
+            effect: 'hide',
+            description: 'The other spies do not see Oberon',
+            applies: (viewer, target) => viewer.role === 'SPY' && target.specialRole === 'OBERON',
+        },
+    ],
+
+    install(hookManager: HookManager) {
+        console.log('[MordredOberon] Installing expansion...');
+
+        // Hook: Assign Mordred, then Oberon, to spies without a special role
+        hookManager.register('roles:assign', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+
+            // Roles from other expansions that may still be waiting for a spy (their hooks can run later)
+            const pending = [
+                ['merlin-assassin', 'ASSASSIN'],
+                ['percival-morgana', 'MORGANA'],
+            ].filter(([id, role]) =>
+                room.expansions.includes(id) && !room.players.some((p) => p.specialRole === role)
+            ).length;
+
+            (['MORDRED', 'OBERON'] as const).forEach(specialRole => {
+                const candidates = room.players.filter((p) => p.role === 'SPY' && !p.specialRole);
+                if (candidates.length <= pending) return;
+
+                const spy = candidates[rng.int(candidates.length)];
+                spy.specialRole = specialRole;
+                console.log(`[MordredOberon] Assigned ${specialRole} to ${spy.nickname}`);
+            });
+
+            return context;
+        });
+
+        console.log('[MordredOberon] Expansion installed successfully');
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[MordredOberon] Uninstalling expansion...');
+        hookManager.unregisterOwner('mordred-oberon');
+    }
+};
@@ -0,0 +1,69 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+
+/**
+ * Percival & Morgana Expansion
+ *
+ * Adds special roles:
+ * - PERCIVAL: Resistance player who sees two "Merlin candidates" (Merlin and Morgana)
+ *   without knowing which one is the real Merlin
+ * - MORGANA: Spy who appears to Percival as Merlin
+ *
+ * Compatibility:
+ * - Requires Merlin & Assassin (without Merlin, Percival would only see Morgana)
+ * - Compatible with Blind Spies (Morgana is still a spy for Merlin's eyes)
+ * - Only players without a special role are picked, so install order does not matter
+ */
+export const PercivalMorganaExpansion: ExpansionPlugin = {
+    id: 'percival-morgana',
+    name: 'Percival & Morgana',
+    version: '1.0.0',
+    requires: ['merlin-assassin@^1.0.0'],
+
+    // Percival sees Merlin and Morgana in seat order: nothing tells them apart
+    visibilityRules: [
+        {
+            kind: 'merlinCandidates',
+            effect: 'reveal',
+            description: 'Percival sees Merlin and Morgana as Merlin candidates',
+            applies: (viewer, target) =>
+                viewer.specialRole === 'PERCIVAL' && (target.specialRole === 'MERLIN' || target.specialRole === 'MORGANA'),
+        },
+    ],
+
+    install(hookManager: HookManager) {
+        console.log('[PercivalMorgana] Installing expansion...');
+
+        // Hook: Assign Percival and Morgana after base roles are assigned
+        hookManager.register('roles:assign', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+
+            const resistance = room.players.filter((p) => p.role === 'RESISTANCE' && !p.specialRole);
+            const spies = room.players.filter((p) => p.role === 'SPY' && !p.specialRole);
+
+            // Assign Percival to a random Resistance player
+            if (resistance.length > 0) {
+                const percival = resistance[rng.int(resistance.length)];
+                percival.specialRole = 'PERCIVAL';
+                console.log(`[PercivalMorgana] Assigned PERCIVAL to ${percival.nickname}`);
+            }
+
+            // Assign Morgana to a random Spy
+            if (spies.length > 0) {
+                const morgana = spies[rng.int(spies.length)];
+                morgana.specialRole = 'MORGANA';
+                console.log(`[PercivalMorgana] Assigned MORGANA to ${morgana.nickname}`);
+            }
+
+            return context;
+        });
+
+        console.log('[PercivalMorgana] Expansion installed successfully');
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[PercivalMorgana] Uninstalling expansion...');
+        hookManager.unregisterOwner('percival-morgana');
+    }
+};
@@ -0,0 +1,438 @@
+import { ExpansionPlugin } from '../types';
+import { HookManager } from '../../hooks/HookManager';
+import type { Player, Room } from '../../Room';
+import { announceNewLeader, broadcast, findPlayer, socketIdOf } from '../helpers';
+
+export type PlotCardType =
+    | 'NO_CONFIDENCE'               // Played during a vote: an approved team is rejected anyway
+    | 'KEEPING_A_CLOSE_EYE_ON_YOU'  // Played during a mission (not on the team): see a team member's mission card
+    | 'OPINION_MAKER'               // Used automatically: the holder's next vote is revealed to everyone
+    | 'IN_THE_SPOTLIGHT'            // Played during a mission: a team member's mission card is revealed to everyone
+    | 'STRONG_LEADER'               // Played before the team is proposed: the holder becomes the leader
+    | 'OVERHEARD_CONVERSATION';     // Played any time: see the loyalty of a player sitting next to you
+
+export interface PlotCard {
+    id: string;
+    type: PlotCardType;
+}
+
+// Cards and their effects in play (playerIds)
+export interface PlotCardsState {
+    deck: PlotCard[];
+    discard: PlotCard[];
+    pending: PlotCard[];                // Drawn by the leader, not given out yet
+    hands: Record<string, PlotCard[]>;  // Cards held, by playerId
+    noConfidence: string | null;        // Who played No Confidence on the current vote
+    spotlight: { holder: string; target: string } | null;
+    closeEyes: Array<{ holder: string; target: string }>;
+    revealed: Array<{ card: PlotCardType; target: string; missionIndex: number; value: boolean }>;
+    secrets: Array<{ card: PlotCardType; viewer: string; target: string; value: boolean | 'RESISTANCE' | 'SPY' }>;
+}
+
+declare module '../../Room' {
+    interface Room {
+        plotCardsState?: PlotCardsState | null;
+    }
+}
+
+// Deck of The Resistance plot cards (Establish Confidence and Takes Responsibility are not included)
+const DECK: Record<PlotCardType, number> = {
+    NO_CONFIDENCE: 3,
+    KEEPING_A_CLOSE_EYE_ON_YOU: 2,
+    OPINION_MAKER: 2,
+    IN_THE_SPOTLIGHT: 1,
+    STRONG_LEADER: 2,
+    OVERHEARD_CONVERSATION: 2,
+};
+
+// Cards the leader draws for each mission: 1 (5-6 players), 2 (7-8 players), 3 (9+ players)
+const cardsPerMission = (playerCount: number) => (playerCount >= 9 ? 3 : playerCount >= 7 ? 2 : 1);
+
+const EXPANSION_ID = 'plot-cards';
+
+/**
+ * Record one of the expansion's actions in the game log and apply it to the room.
+ * Live play and replay both go through applyAction, so they cannot drift apart.
+ */
+function act(room: Room, action: string, fields: { actorId?: string | null; targetId?: string | null; data?: Record<string, any> } = {}) {
+    const event = room.recordEvent('expansion:action', { expansionId: EXPANSION_ID, action, ...fields });
+    applyAction(room, event.payload);
+}
+
+function applyAction(room: Room, payload: any) {
+    const { action, actorId, targetId, data } = payload;
+
+    if (action === 'setup') {
+        room.plotCardsState = {
+            deck: data.deck.map((c: PlotCard) => ({ ...c })),
+            discard: [],
+            pending: [],
+            hands: {},
+            noConfidence: null,
+            spotlight: null,
+            closeEyes: [],
+            revealed: [],
+            secrets: [],
+        };
+        return;
+    }
+
+    const state = room.plotCardsState;
+    if (!state) return;
+
+    switch (action) {
+        case 'draw': {
+            // A new mission: the previous mission's card effects are over
+            state.pending.push(...data.cards);
+            state.deck = [...data.deck];
+            state.discard = [...data.discard];
+            state.spotlight = null;
+            state.closeEyes = [];
+            break;
+        }
+        case 'give': {
+            const card = state.pending.find((c: PlotCard) => c.id === data.cardId);
+            if (!card) break;
+            state.pending = state.pending.filter((c: PlotCard) => c !== card);
+            (state.hands[targetId] = state.hands[targetId] || []).push(card);
+            break;
+        }
+        case 'play': {
+            const card = discardFromHand(state, actorId, data.cardId);
+            if (!card) break;
+
+            if (card.type === 'STRONG_LEADER') {
+                const index = room.players.findIndex((p) => p.playerId === actorId);
+                if (index >= 0) {
+                    room.currentLeaderIndex = index;
+                    room.players.forEach((p, i) => (p.isLeader = i === index));
+                    room.phaseDeadline = null;
+                }
+            } else if (card.type === 'NO_CONFIDENCE') {
+                state.noConfidence = actorId;
+            } else if (card.type === 'IN_THE_SPOTLIGHT') {
+                state.spotlight = { holder: actorId, target: targetId };
+            } else if (card.type === 'KEEPING_A_CLOSE_EYE_ON_YOU') {
+                state.closeEyes.push({ holder: actorId, target: targetId });
+            }
+            break;
+        }
+        case 'reveal': {
+            if (data.cardId) discardFromHand(state, targetId, data.cardId);
+            if (data.viewer) {
+                const value = 'missionCard' in data ? data.missionCard : data.value;
+                state.secrets.push({ card: data.card, viewer: data.viewer, target: targetId, value });
+            } else {
+                state.revealed.push({ card: data.card, target: targetId, missionIndex: data.missionIndex, value: data.value });
+            }
+            break;
+        }
+        case 'no-confidence': {
+            state.noConfidence = null;
+            break;
+        }
+    }
+}
+
+function discardFromHand(state: any, playerId: string, cardId: string): PlotCard | undefined {
+    const hand: PlotCard[] = state.hands[playerId] || [];
+    const card = hand.find(c => c.id === cardId);
+    if (card) {
+        state.hands[playerId] = hand.filter(c => c !== card);
+        state.discard.push(card);
+    }
+    return card;
+}
+
+// Draw the cards for the current mission, reshuffling the discard pile when the deck runs out
+function draw(room: Room) {
+    const state = room.plotCardsState;
+    if (!state) return;
+    let deck: PlotCard[] = [...state.deck];
+    let discard: PlotCard[] = [...state.discard];
+    const cards: PlotCard[] = [];
+
+    for (let i = 0; i < cardsPerMission(room.players.length); i++) {
+        if (deck.length === 0) {
+            deck = room.rng.shuffle(discard);
+            discard = [];
+        }
+        const card = deck.shift();
+        if (card) cards.push(card);
+    }
+
+    act(room, 'draw', { data: { cards, deck, discard } });
+}
+
+/**
+ * Validate and play a card from a player's hand.
+ * Returns the played card, or an error message.
+ */
+function play(io: any, room: Room, playerSocketId: string, cardId: string, targetId?: string): { card: PlotCard; target?: Player } | { error: string } {
+    const state = room.plotCardsState;
+    const player = findPlayer(room, playerSocketId);
+    if (!state || !player) return { error: 'Plot cards are not in play' };
+
+    const card: PlotCard | undefined = (state.hands[player.playerId] || []).find((c: PlotCard) => c.id === cardId);
+    if (!card) return { error: 'You do not hold this card' };
+
+    const target = findPlayer(room, targetId);
+    const onTeam = (p: Player) => room.selectedTeam.includes(p.playerId);
+
+    switch (card.type) {
+        case 'OPINION_MAKER':
+            return { error: 'Opinion Maker is used automatically when you vote' };
+        case 'STRONG_LEADER':
+            if (room.phase !== 'TEAM_SELECTION') return { error: 'Strong Leader can only be played before a team is proposed' };
+            if (player.isLeader) return { error: 'You are already the leader' };
+            break;
+        case 'NO_CONFIDENCE':
+            if (room.phase !== 'VOTE') return { error: 'No Confidence can only be played during a vote' };
+            if (state.noConfidence) return { error: 'No Confidence was already played on this vote' };
+            break;
+        case 'IN_THE_SPOTLIGHT':
+            if (room.phase !== 'MISSION') return { error: 'In the Spotlight can only be played during a mission' };
+            if (state.spotlight) return { error: 'A player is already in the spotlight' };
+            if (!target || !onTeam(target) || room.missionActions.has(target.playerId)) {
+                return { error: 'Choose a team member who has not played their mission card yet' };
+            }
+            break;
+        case 'KEEPING_A_CLOSE_EYE_ON_YOU':
+            if (room.phase !== 'MISSION') return { error: 'Keeping a Close Eye on You can only be played during a mission' };
+            if (onTeam(player)) return { error: 'Team members cannot keep an eye on each other' };
+            if (!target || !onTeam(target)) return { error: 'Choose a team member' };
+            break;
+        case 'OVERHEARD_CONVERSATION': {
+            if (room.phase === 'LOBBY' || room.phase === 'GAME_OVER') return { error: 'The game is not in progress' };
+            const seat = room.players.indexOf(player);
+            const neighbours = [-1, 1].map(d => room.players[(seat + d + room.players.length) % room.players.length]);
+            if (!target || target === player || !neighbours.includes(target)) return { error: 'Choose a player sitting next to you' };
+            break;
+        }
+    }
+
+    act(room, 'play', { actorId: player.playerId, targetId: target?.playerId ?? null, data: { cardId, type: card.type } });
+
+    // Both cards were checked to have a target above
+    if (card.type === 'OVERHEARD_CONVERSATION' && target) {
+        revealSecret(io, room, card.type, player.playerId, target.playerId, target.role === 'SPY' ? 'SPY' : 'RESISTANCE');
+    } else if (card.type === 'KEEPING_A_CLOSE_EYE_ON_YOU' && target && room.missionActions.has(target.playerId)) {
+        revealSecret(io, room, card.type, player.playerId, target.playerId, room.missionActions.get(target.playerId));
+    }
+    room.touch();
+
+    return { card, target };
+}
+
+// Show a player something only they may see (the result is also kept for their state:sync).
+// A mission card is logged as data.missionCard, which the public log never shows (see getPublicEvents).
+function revealSecret(io: any, room: Room, card: PlotCardType, viewer: string, target: string, value: any) {
+    const seen = card === 'KEEPING_A_CLOSE_EYE_ON_YOU' ? { missionCard: value } : { value };
+    act(room, 'reveal', { targetId: target, data: { card, viewer, ...seen } });
+    io?.to(socketIdOf(room, viewer)).emit('plot:secret', { card, targetId: socketIdOf(room, target), value });
+}
+
+// Show everyone a vote or a mission card
+function revealPublic(io: any, room: Room, card: PlotCardType, target: string, value: boolean, cardId?: string) {
+    act(room, 'reveal', { targetId: target, data: { card, value, missionIndex: room.currentMissionIndex, ...(cardId ? { cardId } : {}) } });
+    broadcast(io, room, 'plot:revealed', { card, targetId: socketIdOf(room, target), value });
+}
+
+/**
+ * Plot Cards Expansion (The Resistance)
+ *
+ * At the start of each mission the leader draws plot cards (1 with 5-6 players,
+ * 2 with 7-8, 3 with 9+) and gives each one to another player. Cards are held
+ * face up until played:
+ * - No Confidence, Keeping a Close Eye on You, In the Spotlight, Strong Leader
+ *   and Overheard Conversation are played by their holder (plot:play)
+ * - Opinion Maker is used on the holder's next vote, which is revealed to everyone
+ *
+ * Cards the leader has not given out when the team is proposed are dealt to the
+ * players after the leader in seat order. No Confidence is played during the vote
+ * (not after the reveal) and rejects the team if the vote approves it.
+ */
+export const PlotCardsExpansion: ExpansionPlugin = {
+    id: EXPANSION_ID,
+    name: 'Plot Cards',
+    version: '1.0.0',
+
+    install(hookManager: HookManager, io?: any) {
+        console.log('[PlotCards] Installing expansion...');
+
+        // Hook: Shuffle the deck and draw the first mission's cards
+        hookManager.register('game:start', (context) => {
+            const { room } = context;
+            const rng = context.rng || room.rng;
+
+            const cards: PlotCard[] = [];
+            (Object.keys(DECK) as PlotCardType[]).forEach(type => {
+                for (let i = 0; i < DECK[type]; i++) cards.push({ id: `plot-${cards.length + 1}`, type });
+            });
+
+            act(room, 'setup', { data: { deck: rng.shuffle(cards) } });
+            draw(room);
+
+            return context;
+        });
+
+        // Hook: Deal the cards the leader kept before proposing the team
+        hookManager.register('team:select', (context) => {
+            const { room } = context;
+            const state = room.plotCardsState;
+            if (!state || state.pending.length === 0) return context;
+
+            const count = room.players.length;
+            let seat = room.currentLeaderIndex;
+            [...state.pending].forEach((card: PlotCard) => {
+                seat = (seat + 1) % count;
+                if (seat === room.currentLeaderIndex) seat = (seat + 1) % count;
+                act(room, 'give', { actorId: null, targetId: room.players[seat].playerId, data: { cardId: card.id } });
+            });
+
+            return context;
+        });
+
+        // Hook: Opinion Maker reveals the holder's vote to everyone
+        hookManager.register('vote:submit', (context) => {
+            const { room, playerId, vote } = context;
+            if (!room.plotCardsState || !playerId) return context;
+            const card = (room.plotCardsState.hands[playerId] || []).find((c: PlotCard) => c.type === 'OPINION_MAKER');
+
+            if (card) {
+                revealPublic(io, room, 'OPINION_MAKER', playerId, !!vote, card.id);
+            }
+
+            return context;
+        });
+
+        // Hook: No Confidence rejects an approved team
+        hookManager.register('vote:tally', (context) => {
+            const { room, result } = context;
+            const state = room.plotCardsState;
+            if (!state?.noConfidence) return context;
+
+            const overturned = result.approved;
+            context.result = { ...result, approved: false };
+            act(room, 'no-confidence', { actorId: state.noConfidence, data: { overturned } });
+
+            return context;
+        });
+
+        // Hook: Reveal the mission cards of players in the spotlight or being watched
+        hookManager.register('mission:submit', (context) => {
+            const { room, playerId, success } = context;
+            const state = room.plotCardsState;
+            if (!state || !playerId) return context;
+
+            if (state.spotlight?.target === playerId) {
+                revealPublic(io, room, 'IN_THE_SPOTLIGHT', playerId, !!success);
+            }
+            state.closeEyes
+                .filter((watch) => watch.target === playerId)
+                .forEach((watch) => revealSecret(io, room, 'KEEPING_A_CLOSE_EYE_ON_YOU', watch.holder, playerId, success));
+
+            return context;
+        });
+
+        // Hook: Draw the next mission's cards (if the game goes on)
+        hookManager.register('mission:resolve', (context) => {
+            const { room, nextPhase } = context;
+
+            if (room.plotCardsState && nextPhase !== 'GAME_OVER' && nextPhase !== 'ASSASSINATION') {
+                draw(room);
+            }
+
+            return context;
+        });
+
+        // Hook: Cards are face up; only what a card showed you privately stays private
+        hookManager.register('state:sync', (context) => {
+            const { room, player } = context;
+            const state = room.plotCardsState;
+            if (!state) return context;
+
+            context.state.plotCards = {
+                deckCount: state.deck.length,
+                pending: state.pending,
+                hands: Object.fromEntries(
+                    room.players.map((p) => [p.id, state.hands[p.playerId] || []])
+                ),
+                noConfidencePlayed: !!state.noConfidence,
+                spotlight: state.spotlight ? socketIdOf(room, state.spotlight.target) : null,
+                revealed: state.revealed.map((r) => ({ ...r, target: socketIdOf(room, r.target) })),
+            };
+
+            if (player) {
+                context.state.plotCards.mySecrets = state.secrets
+                    .filter((s) => s.viewer === player.playerId)
+                    .map((s) => ({ card: s.card, targetId: socketIdOf(room, s.target), value: s.value }));
+            }
+
+            return context;
+        });
+
+        console.log('[PlotCards] Expansion installed successfully');
+    },
+
+    registerSocketHandlers(socket: any, room: Room, io: any) {
+        // Leader gives a drawn card to another player
+        socket.on('plot:give', ({ cardId, targetId }: { cardId: string; targetId: string }) => {
+            const state = room.plotCardsState;
+            const leader = findPlayer(room, socket.id);
+            const target = findPlayer(room, targetId);
+
+            if (!state || !leader?.isLeader || room.phase !== 'TEAM_SELECTION') {
+                socket.emit('error', { message: 'Only the leader can give plot cards, before proposing a team' });
+                return;
+            }
+            if (!state.pending.some((c: PlotCard) => c.id === cardId)) {
+                socket.emit('error', { message: 'This card is not waiting to be given' });
+                return;
+            }
+            if (!target || target === leader) {
+                socket.emit('error', { message: 'Give the card to another player' });
+                return;
+            }
+
+            act(room, 'give', { actorId: leader.playerId, targetId: target.playerId, data: { cardId } });
+            room.touch();
+            broadcast(io, room, 'plot:card-given', { cardId, to: target.id });
+        });
+
+        // Holder plays a card
+        socket.on('plot:play', ({ cardId, targetId }: { cardId: string; targetId?: string }) => {
+            const outcome = play(io, room, socket.id, cardId, targetId);
+            if ('error' in outcome) {
+                socket.emit('error', { message: outcome.error });
+                return;
+            }
+
+            const { card, target } = outcome;
+            broadcast(io, room, 'plot:card-played', { playerId: socket.id, card, targetId: target?.id ?? null });
+
+            if (card.type === 'STRONG_LEADER') {
+                announceNewLeader(io, room);
+            }
+        });
+    },
+
+    serializeState(room: Room) {
+        return room.plotCardsState || null;
+    },
+
+    restoreState(room: Room, state: any) {
+        if (state) {
+            room.plotCardsState = state;
+        }
+    },
+
+    replayEvent(room: Room, event) {
+        applyAction(room, event.payload);
+    },
+
+    uninstall(hookManager: HookManager) {
+        console.log('[PlotCards] Uninstalling expansion...');
+        hookManager.unregisterOwner(EXPANSION_ID);
+    }
+};
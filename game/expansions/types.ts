@@ -1,4 +1,37 @@
 import { HookManager } from '../hooks/HookManager';
+import { GameEventOf } from '../events/types';
+import { VisibilityRule } from '../knowledge/types';
+import type { GamePhase, Room } from '../Room';
+
+export type ExpansionOptionValue = boolean | number | string;
+
+// Option values of one expansion, by option name
+export type ExpansionOptions = Record<string, ExpansionOptionValue>;
+
+/**
+ * Default action of an expansion phase that waits on one player, applied when the
+ * phase's deadline (TurnTimerConfig.expansionPhaseSeconds) expires
+ */
+export interface ExpansionPhaseTimeout {
+    /** playerIds the phase is waiting on */
+    waitingOn(room: Room): string[];
+    /** Act for them (e.g. Excalibur passes), as the real action would */
+    apply(room: Room): void;
+    /** Tell the players and carry the game on, as after the real action */
+    announce?(room: Room, io: any): Promise<void> | void;
+}
+
+/**
+ * One configurable option of an expansion (see ExpansionPlugin.options)
+ */
+export interface ExpansionOptionSchema {
+    type: 'boolean' | 'number' | 'string';
+    default: ExpansionOptionValue;
+    description: string;
+    min?: number;        // number options
+    max?: number;        // number options
+    choices?: string[];  // string options: the accepted values
+}
 
 /**
  * Expansion plugin interface
@@ -11,18 +44,56 @@ export interface ExpansionPlugin {
     /** Human-readable name */
     name: string;
 
-    /** Version string */
+    /** Version (semver: MAJOR.MINOR.PATCH) */
     version: string;
 
+    /**
+     * Expansions this one needs in the same room: an id, optionally with a version
+     * range ("merlin-assassin" or "merlin-assassin@^1.0.0", see validation.ts)
+     */
+    requires?: string[];
+
+    /** Expansions this one cannot be combined with */
+    conflictsWith?: string[];
+
+    /** Fewest and most players the expansion works with (checked when the game starts) */
+    minPlayers?: number;
+    maxPlayers?: number;
+
+    /**
+     * Options the host may set on create_room, with their defaults.
+     * The room keeps the chosen values (Room.getExpansionOptions) and install() receives them.
+     */
+    options?: Record<string, ExpansionOptionSchema>;
+
+    /**
+     * Who-sees-whom rules added by this expansion (see knowledge/KnowledgeModel.ts).
+     * Rooms read them to build every player's secret information.
+     */
+    visibilityRules?: VisibilityRule[];
+
+    /**
+     * Phases added by this expansion (declare them in GamePhaseRegistry too).
+     * Rooms ignore hook requests for phases none of their expansions declared.
+     */
+    phases?: GamePhase[];
+
+    /**
+     * Timeout defaults of the phases above, by phase. A phase with one gets a deadline like
+     * the core phases, so a player who never acts (or disconnects) cannot stall the room.
+     */
+    phaseTimeouts?: Partial<Record<GamePhase, ExpansionPhaseTimeout>>;
+
     /**
      * Install the expansion
      * Register all hooks and initialize any necessary state
+     * @param options - The room's values for the options declared in `options` (defaults filled in)
      */
-    install(hookManager: HookManager, io?: any): void;
+    install(hookManager: HookManager, io?: any, options?: ExpansionOptions): void;
 
     /**
      * Uninstall the expansion
-     * Clean up hooks and state
+     * Remove everything install() registered (hookManager.unregisterOwner removes its hooks)
      */
     uninstall(hookManager: HookManager): void;
 
@@ -33,7 +104,29 @@ export interface ExpansionPlugin {
      * @param room - The room instance
      * @param io - The socket.io server instance
      */
-    registerSocketHandlers?(socket: any, room: any, io: any): void;
+    registerSocketHandlers?(socket: any, room: Room, io: any): void;
+
+    /**
+     * Serialize expansion-specific room state for persistence
+     * The returned value must be JSON-serializable
+     * @param room - The room instance
+     */
+    serializeState?(room: Room): any;
+
+    /**
+     * Restore expansion-specific room state from a persisted snapshot
+     * @param room - The rebuilt room instance
+     * @param state - The value previously returned by serializeState
+     */
+    restoreState?(room: Room, state: any): void;
+
+    /**
+     * Re-apply one of this expansion's "expansion:action" events when a room
+     * is rebuilt from its game log
+     * @param room - The room being rebuilt
+     * @param event - The recorded event (payload.expansionId matches this expansion)
+     */
+    replayEvent?(room: Room, event: GameEventOf<'expansion:action'>): void;
 }
 
 /**
@@ -55,7 +148,7 @@ export class ExpansionRegistry {
     /**
      * Install an expansion by ID
      */
-    install(expansionId: string, hookManager: HookManager, io?: any): boolean {
+    install(expansionId: string, hookManager: HookManager, io?: any, options?: ExpansionOptions): boolean {
         const expansion = this.expansions.get(expansionId);
 
         if (!expansion) {
@@ -69,7 +162,7 @@ export class ExpansionRegistry {
         }
 
         try {
-            expansion.install(hookManager, io);
+            hookManager.installAs(expansionId, () => expansion.install(hookManager, io, options));
             this.installed.add(expansionId);
             console.log(`[ExpansionRegistry] Installed expansion: ${expansion.name}`);
             return true;
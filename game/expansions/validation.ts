@@ -0,0 +1,160 @@
+import { ExpansionOptions, ExpansionPlugin } from './types';
+import { AVAILABLE_EXPANSIONS } from './index';
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a MAJOR.MINOR.PATCH version (pre-release and build suffixes are ignored)
+ */
+export function parseVersion(version: string): [number, number, number] | null {
+    const match = SEMVER.exec(version);
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * Check a version against a range: "1.2.3" (exact), "^1.2.3" (same major) or "~1.2.3" (same minor),
+ * both at least 1.2.3. An empty range accepts any version.
+ */
+export function satisfiesVersion(version: string, range: string = ''): boolean {
+    const actual = parseVersion(version);
+    if (!actual) return false;
+    if (!range) return true;
+
+    const operator = range[0] === '^' || range[0] === '~' ? range[0] : '';
+    const wanted = parseVersion(range.slice(operator.length));
+    if (!wanted) return false;
+
+    const compare = actual[0] - wanted[0] || actual[1] - wanted[1] || actual[2] - wanted[2];
+    if (operator === '^') return actual[0] === wanted[0] && compare >= 0;
+    if (operator === '~') return actual[0] === wanted[0] && actual[1] === wanted[1] && compare >= 0;
+    return compare === 0;
+}
+
+/**
+ * Split a requirement ("merlin-assassin" or "merlin-assassin@^1.0.0") into an id and a version range
+ */
+export function parseRequirement(requirement: string): { id: string; range: string } {
+    const at = requirement.indexOf('@');
+    return at < 0 ? { id: requirement, range: '' } : { id: requirement.slice(0, at), range: requirement.slice(at + 1) };
+}
+
+/**
+ * Default values of the options an expansion declares
+ */
+export function defaultExpansionOptions(plugin: ExpansionPlugin): ExpansionOptions {
+    return Object.fromEntries(
+        Object.entries(plugin.options || {}).map(([name, schema]) => [name, schema.default])
+    );
+}
+
+/**
+ * Check option values against the expansion's schema. Returns every declared option,
+ * with its default where no valid value was given, and the errors found.
+ */
+export function validateExpansionOptions(
+    plugin: ExpansionPlugin,
+    input: unknown
+): { options: ExpansionOptions; errors: string[] } {
+    const options = defaultExpansionOptions(plugin);
+    if (input === undefined || input === null) return { options, errors: [] };
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        return { options, errors: [`${plugin.name} options must be an object`] };
+    }
+
+    const schemas = plugin.options || {};
+    const errors: string[] = [];
+
+    Object.entries(input as Record<string, unknown>).forEach(([name, value]) => {
+        const schema = schemas[name];
+        if (!schema) {
+            errors.push(`${plugin.name} has no option ${name}`);
+        } else if (typeof value !== schema.type || (schema.type === 'number' && !Number.isFinite(value))) {
+            errors.push(`${plugin.name} option ${name} must be a ${schema.type}`);
+        } else if (schema.min !== undefined && (value as number) < schema.min) {
+            errors.push(`${plugin.name} option ${name} must be at least ${schema.min}`);
+        } else if (schema.max !== undefined && (value as number) > schema.max) {
+            errors.push(`${plugin.name} option ${name} must be at most ${schema.max}`);
+        } else if (schema.choices && !schema.choices.includes(value as string)) {
+            errors.push(`${plugin.name} option ${name} must be one of ${schema.choices.join(', ')}`);
+        } else {
+            options[name] = value as ExpansionOptions[string];
+        }
+    });
+
+    return { options, errors };
+}
+
+/**
+ * Validate the expansions picked for a room: known ids, options, requirements, conflicts and,
+ * when `playerCount` is given (starting the game), the player counts they support.
+ * Entries are expansion ids or `{ id, options }`; duplicates are dropped.
+ * Returns the expansion ids to use, their options (defaults filled in) and the errors found.
+ */
+export function validateExpansionSelection(
+    input: unknown,
+    playerCount?: number
+): { expansions: string[]; options: Record<string, ExpansionOptions>; errors: string[] } {
+    if (input === undefined || input === null) return { expansions: [], options: {}, errors: [] };
+
+    const isEntry = (entry: unknown) => typeof entry === 'string' ||
+        (typeof entry === 'object' && entry !== null && 'id' in entry && typeof entry.id === 'string');
+    if (!Array.isArray(input) || !input.every(isEntry)) {
+        return { expansions: [], options: {}, errors: ['expansions must be a list of expansion ids or { id, options } entries'] };
+    }
+
+    const entries = (input as Array<string | { id: string; options?: unknown }>)
+        .map(entry => typeof entry === 'string' ? { id: entry, options: undefined } : entry);
+    const expansions = Array.from(new Set(entries.map(entry => entry.id)));
+    const options: Record<string, ExpansionOptions> = {};
+    const errors: string[] = [];
+    const plugins: ExpansionPlugin[] = [];
+
+    expansions.forEach(id => {
+        const plugin = AVAILABLE_EXPANSIONS[id as keyof typeof AVAILABLE_EXPANSIONS];
+        if (!plugin) {
+            errors.push(`Unknown expansion: ${id}`);
+            return;
+        }
+        plugins.push(plugin);
+
+        // The first entry of a duplicated id sets its options
+        const checked = validateExpansionOptions(plugin, entries.find(entry => entry.id === id)!.options);
+        options[id] = checked.options;
+        errors.push(...checked.errors);
+    });
+
+    const byId = new Map(plugins.map(plugin => [plugin.id, plugin]));
+
+    plugins.forEach(plugin => {
+        (plugin.requires || []).forEach(requirement => {
+            const { id, range } = parseRequirement(requirement);
+            const required = byId.get(id);
+            const name = AVAILABLE_EXPANSIONS[id as keyof typeof AVAILABLE_EXPANSIONS]?.name ?? id;
+            if (!required) {
+                errors.push(`${plugin.name} requires ${name}`);
+            } else if (!satisfiesVersion(required.version, range)) {
+                errors.push(`${plugin.name} requires ${name} ${range} (${required.version} is installed)`);
+            }
+        });
+
+        (plugin.conflictsWith || []).forEach(id => {
+            const other = byId.get(id);
+            // Report each conflicting pair once, whichever side declared it
+            const reported = other && (other.conflictsWith || []).includes(plugin.id) && other.id < plugin.id;
+            if (other && !reported) {
+                errors.push(`${plugin.name} cannot be combined with ${other.name}`);
+            }
+        });
+
+        if (playerCount !== undefined) {
+            if (plugin.minPlayers !== undefined && playerCount < plugin.minPlayers) {
+                errors.push(`${plugin.name} needs at least ${plugin.minPlayers} players (${playerCount} in the room)`);
+            }
+            if (plugin.maxPlayers !== undefined && playerCount > plugin.maxPlayers) {
+                errors.push(`${plugin.name} allows at most ${plugin.maxPlayers} players (${playerCount} in the room)`);
+            }
+        }
+    });
+
+    return { expansions, options, errors };
+}
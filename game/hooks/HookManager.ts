@@ -1,21 +1,102 @@
-import { GameHook, HookCallback, HookContext } from './types';
+import { GameHook, HookCallback, HookContext, HookHandle, HookOptions, VetoableHookContext } from './types';
+
+interface HookEntry {
+    callback: HookCallback<any>;
+    priority: number;
+    owner: string | null;
+    before: string[];
+    after: string[];
+    seq: number; // Registration order, to break ties
+}
+
+/**
+ * Order callbacks by priority (lower first, then registration order), moved around
+ * as little as needed to honour their before/after constraints on other owners
+ */
+function orderEntries(entries: HookEntry[], hookName: GameHook): HookEntry[] {
+    const base = [...entries].sort((a, b) => a.priority - b.priority || a.seq - b.seq);
+    const mustPrecede = (a: HookEntry, b: HookEntry) =>
+        a !== b && ((!!b.owner && a.before.includes(b.owner)) || (!!a.owner && b.after.includes(a.owner)));
+
+    const ordered: HookEntry[] = [];
+    const remaining = [...base];
+    while (remaining.length > 0) {
+        const next = remaining.find(entry => !remaining.some(other => mustPrecede(other, entry)));
+        if (!next) {
+            console.warn(`[HookManager] Conflicting ordering constraints on hook ${hookName}, falling back to priorities`);
+            return [...ordered, ...remaining];
+        }
+        ordered.push(next);
+        remaining.splice(remaining.indexOf(next), 1);
+    }
+    return ordered;
+}
 
 /**
  * HookManager - Central system for managing game hooks
  * Allows expansions to register callbacks for specific game events
  */
 export class HookManager {
-    private hooks: Map<GameHook, HookCallback[]> = new Map();
+    private hooks: Map<GameHook, HookEntry[]> = new Map();
+    private nextSeq = 0;
+    // Expansion whose install() is running (see installAs): it owns the callbacks registered meanwhile
+    private installingOwner: string | null = null;
 
     /**
      * Register a callback for a specific hook
+     * Returns a handle that removes the callback again
      */
-    register(hookName: GameHook, callback: HookCallback): void {
-        if (!this.hooks.has(hookName)) {
-            this.hooks.set(hookName, []);
+    register<H extends GameHook>(hookName: H, callback: HookCallback<H>, options: HookOptions = {}): HookHandle {
+        const entry: HookEntry = {
+            callback,
+            priority: options.priority ?? 0,
+            owner: options.owner ?? this.installingOwner,
+            before: options.before ?? [],
+            after: options.after ?? [],
+            seq: this.nextSeq++,
+        };
+        this.hooks.set(hookName, orderEntries([...(this.hooks.get(hookName) || []), entry], hookName));
+        console.log(`[HookManager] Registered callback for hook: ${hookName}${entry.owner ? ` (${entry.owner})` : ''}`);
+
+        return {
+            dispose: () => {
+                const entries = this.hooks.get(hookName);
+                if (entries?.includes(entry)) {
+                    this.hooks.set(hookName, entries.filter(e => e !== entry));
+                }
+            },
+        };
+    }
+
+    /**
+     * Run an expansion's install(): every callback it registers is owned by `owner`,
+     * so other expansions can order themselves around it and unregisterOwner removes them
+     */
+    installAs(owner: string, install: () => void): void {
+        const previousOwner = this.installingOwner;
+        this.installingOwner = owner;
+        try {
+            install();
+        } finally {
+            this.installingOwner = previousOwner;
         }
-        this.hooks.get(hookName)!.push(callback);
-        console.log(`[HookManager] Registered callback for hook: ${hookName}`);
+    }
+
+    /**
+     * Remove every callback registered by an owner (an expansion id)
+     * Returns the number of callbacks removed
+     */
+    unregisterOwner(owner: string): number {
+        let removed = 0;
+        this.hooks.forEach((entries, hookName) => {
+            const kept = entries.filter(e => e.owner !== owner);
+            removed += entries.length - kept.length;
+            this.hooks.set(hookName, kept);
+        });
+        if (removed > 0) {
+            console.log(`[HookManager] Removed ${removed} callbacks of ${owner}`);
+        }
+        return removed;
     }
 
     /**
@@ -23,8 +104,8 @@ export class HookManager {
      * All registered callbacks will be called in order
      * Each callback can modify the context
      */
-    async trigger(hookName: GameHook, context: HookContext): Promise<HookContext> {
-        const callbacks = this.hooks.get(hookName) || [];
+    async trigger<H extends GameHook>(hookName: H, context: HookContext<H>): Promise<HookContext<H>> {
+        const callbacks = (this.hooks.get(hookName) || []).map(e => e.callback);
 
         if (callbacks.length === 0) {
             return context;
@@ -38,8 +119,8 @@ export class HookManager {
             try {
                 result = await callback(result);
 
-                // Allow hooks to stop propagation
-                if (result.stopPropagation) {
+                // Allow hooks to stop propagation (a veto stops it too)
+                if (result.stopPropagation || (result as VetoableHookContext).cancel) {
                     console.log(`[HookManager] Hook ${hookName} stopped propagation`);
                     break;
                 }
@@ -52,6 +133,44 @@ export class HookManager {
         return result;
     }
 
+    /**
+     * Trigger a hook from synchronous game code (team selection, votes, mission cards)
+     * Callbacks must return the context synchronously: a callback returning a Promise
+     * is not awaited, and the context it was given is kept as its result
+     */
+    triggerSync<H extends GameHook>(hookName: H, context: HookContext<H>): HookContext<H> {
+        const callbacks = (this.hooks.get(hookName) || []).map(e => e.callback);
+
+        if (callbacks.length === 0) {
+            return context;
+        }
+
+        console.log(`[HookManager] Triggering hook: ${hookName} (${callbacks.length} callbacks)`);
+
+        let result = context;
+
+        for (const callback of callbacks) {
+            try {
+                const returned = callback(result);
+                if (returned instanceof Promise) {
+                    console.error(`[HookManager] Async callback ignored for synchronous hook ${hookName}`);
+                    returned.catch(error => console.error(`[HookManager] Error in hook ${hookName}:`, error));
+                } else {
+                    result = returned;
+                }
+
+                if (result.stopPropagation || (result as VetoableHookContext).cancel) {
+                    console.log(`[HookManager] Hook ${hookName} stopped propagation`);
+                    break;
+                }
+            } catch (error) {
+                console.error(`[HookManager] Error in hook ${hookName}:`, error);
+            }
+        }
+
+        return result;
+    }
+
     /**
      * Clear all callbacks for a specific hook, or all hooks if no name provided
      */
@@ -1,39 +1,104 @@
+import type { Rng } from '../rng/Rng';
+import type { GamePhase, Player, Role, Room } from '../Room';
+
 /**
  * Available game hooks that expansions can register to
+ *
+ * Hooks marked "vetoable" are triggered before the action is applied: a callback may set
+ * `cancel` (and a `reason`) to refuse it, which also stops the remaining callbacks.
+ * Synchronous hooks run through HookManager.triggerSync.
  */
 export type GameHook =
     | 'game:start'           // Triggered when game starts (before phase change)
-    | 'game:end'             // Triggered when game ends
+    | 'game:end'             // Triggered when the game ends; may override `winner` (synchronous)
     | 'roles:assign'         // Triggered after base roles are assigned
-    | 'team:select'          // Triggered when team is selected
-    | 'vote:submit'          // Triggered when a player submits a vote
-    | 'vote:tally'           // Triggered when votes are tallied
-    | 'mission:submit'       // Triggered when mission action is submitted
+    | 'team:select'          // { team, missionIndex }: before the team is proposed (synchronous, vetoable)
+    | 'vote:submit'          // { playerId, vote }: before the vote counts; may change `vote` (synchronous, vetoable)
+    | 'vote:tally'           // { result }: before the result is applied; may change `result.approved` (synchronous)
+    | 'mission:submit'       // { playerId, success }: before the card is played; may change `success` or ask for `nextPhase` (synchronous, vetoable)
     | 'mission:resolve'      // Triggered after mission is resolved
-    | 'player:join'          // Triggered when player joins room
-    | 'player:disconnect'    // Triggered when player disconnects
+    | 'player:join'          // { nickname, playerId }: before a player takes a seat (synchronous, vetoable)
+    | 'player:disconnect'    // { player }: a player lost their connection; veto keeps their seat past the reconnect delay (synchronous, vetoable)
     | 'state:sync'           // Triggered when syncing game state to player
     | 'game:reset';          // Triggered when game is reset
 
 /**
- * Context passed to hook callbacks
- * Hooks can modify this context and return it
+ * Fields every hook context carries
+ */
+export interface BaseHookContext {
+    room: Room;
+    rng: Rng;                // The room's seeded RNG; use it instead of Math.random()
+    stopPropagation?: boolean; // Skip the remaining callbacks
+}
+
+/**
+ * Fields of the vetoable hooks
+ */
+export interface VetoableHookContext extends BaseHookContext {
+    cancel?: boolean;        // Refuse the action
+    reason?: string;         // Why the action was refused (shown to the player when possible)
+}
+
+// vote:tally: the outcome of a vote, before it is applied
+export interface VoteTallyResult {
+    approved: boolean;
+    approveCount: number;
+    rejectCount: number;
+}
+
+// mission:resolve: the outcome of the mission that was just played
+export interface MissionResolveResult {
+    success: boolean;
+    failCount: number;
+}
+
+/**
+ * Context passed to the callbacks of each hook
+ * Hooks can modify their context and return it
  */
-export interface HookContext {
-    room?: any;
-    player?: any;
-    players?: any[];
-    result?: any;
-    state?: any;
-    vote?: boolean;
-    playerId?: string;
-    targetId?: string;
-    nextPhase?: string;
-    revealOrder?: string[];
-    [key: string]: any; // Allow additional properties
+export interface HookContextMap {
+    'game:start': BaseHookContext;
+    'game:end': BaseHookContext & { winner: Role };
+    'roles:assign': BaseHookContext & { players: Player[] };
+    'team:select': VetoableHookContext & { team: string[]; missionIndex: number }; // team: playerIds
+    'vote:submit': VetoableHookContext & { playerId: string; vote: boolean };
+    'vote:tally': BaseHookContext & { result: VoteTallyResult };
+    'mission:submit': VetoableHookContext & {
+        playerId: string;
+        success: boolean;    // The card that was played
+        nextPhase?: GamePhase; // A phase to hold the resolution in
+    };
+    'mission:resolve': BaseHookContext & { result: MissionResolveResult; nextPhase: GamePhase }; // nextPhase: the phase after the mission
+    'player:join': VetoableHookContext & { nickname: string; playerId?: string };
+    'player:disconnect': VetoableHookContext & { player: Player; playerId: string };
+    'state:sync': BaseHookContext & {
+        player: Player | null;
+        state: Record<string, any>;
+        spectator?: boolean; // Sync for a spectator (player is null): add public state only
+    };
+    'game:reset': BaseHookContext;
 }
 
+export type HookContext<H extends GameHook = GameHook> = HookContextMap[H];
+
 /**
  * Hook callback function signature
  */
-export type HookCallback = (context: HookContext) => HookContext | Promise<HookContext>;
+export type HookCallback<H extends GameHook = GameHook> = (context: HookContext<H>) => HookContext<H> | Promise<HookContext<H>>;
+
+/**
+ * Where a callback runs among the others registered on the same hook
+ */
+export interface HookOptions {
+    priority?: number;   // Lower runs first (default 0); equal priorities run in registration order
+    owner?: string;      // Expansion id the callback belongs to (defaults to the expansion being installed)
+    before?: string[];   // Run before the callbacks of these expansions
+    after?: string[];    // Run after the callbacks of these expansions
+}
+
+/**
+ * Returned by HookManager.register: removes the callback
+ */
+export interface HookHandle {
+    dispose(): void;
+}
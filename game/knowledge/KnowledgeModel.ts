@@ -0,0 +1,67 @@
+import type { Player } from '../Room';
+import { KnowledgeKind, KnownPlayer, PlayerKnowledge, VisibilityRule } from './types';
+
+/**
+ * Visibility rules of the base game: spies know each other
+ */
+export const BASE_VISIBILITY_RULES: VisibilityRule[] = [
+    {
+        kind: 'spies',
+        effect: 'reveal',
+        description: 'Spies see the other spies',
+        applies: (viewer, target) => viewer.role === 'SPY' && target.role === 'SPY',
+    },
+];
+
+// Rules look at the roles as dealt: a mid-game allegiance switch (Lancelot) changes the team
+// a player wins with, not what anyone was shown at the start
+const asDealt = (player: Player): Player => (player.dealtRole ? { ...player, role: player.dealtRole } : player);
+
+/**
+ * KnowledgeModel - decides who knows what about whom
+ *
+ * Built from the base rules plus the rules declared by a room's expansions
+ * (ExpansionPlugin.visibilityRules). Every path that sends secret information
+ * to a player reads it from here, so they can never disagree.
+ */
+export class KnowledgeModel {
+    private rules: VisibilityRule[];
+
+    constructor(rules: VisibilityRule[] = []) {
+        this.rules = [...BASE_VISIBILITY_RULES, ...rules];
+    }
+
+    /**
+     * Whether `viewer` knows `target` as `kind`
+     */
+    sees(room: any, viewer: Player, target: Player, kind: KnowledgeKind): boolean {
+        const matching = this.rules.filter(rule => rule.kind === kind && rule.applies(asDealt(viewer), asDealt(target), room));
+        return matching.some(rule => rule.effect === 'reveal') && !matching.some(rule => rule.effect === 'hide');
+    }
+
+    /**
+     * Players `viewer` knows as `kind`, in seat order
+     */
+    getKnownPlayers(room: any, viewer: Player, kind: KnowledgeKind): KnownPlayer[] {
+        return room.players
+            .filter((target: Player) => this.sees(room, viewer, target, kind))
+            .map((target: Player) => ({ id: target.id, nickname: target.nickname }));
+    }
+
+    /**
+     * Everything `viewer` knows, for every kind any rule can reveal
+     */
+    getKnowledge(room: any, viewer: Player): PlayerKnowledge {
+        const knowledge: PlayerKnowledge = {};
+        const kinds = new Set(this.rules.filter(rule => rule.effect === 'reveal').map(rule => rule.kind));
+
+        kinds.forEach(kind => {
+            const known = this.getKnownPlayers(room, viewer, kind);
+            if (known.length > 0) {
+                knowledge[kind] = known;
+            }
+        });
+
+        return knowledge;
+    }
+}
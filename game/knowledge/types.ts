@@ -0,0 +1,35 @@
+import type { Player } from '../Room';
+
+/**
+ * Secret information a player can hold about other players.
+ * Each kind is sent to the player under the same key (getGameState, role_assigned).
+ */
+export type KnowledgeKind =
+    | 'spies'                // Players the viewer knows to be spies
+    | 'merlinCandidates';    // Players the viewer knows to be Merlin or Morgana (Percival)
+
+/**
+ * A "viewer sees target as <kind>" rule declared by the base game or an expansion.
+ *
+ * A target is known when at least one "reveal" rule matches and no "hide" rule
+ * does, so the result does not depend on the order rules are declared in.
+ */
+export interface VisibilityRule {
+    kind: KnowledgeKind;
+    effect: 'reveal' | 'hide';
+    description: string;
+    applies(viewer: Player, target: Player, room: any): boolean;
+}
+
+/**
+ * What a player is shown about another player (never the role)
+ */
+export interface KnownPlayer {
+    id: string;
+    nickname: string;
+}
+
+/**
+ * Everything a player knows, keyed by kind (kinds they know nobody for are left out)
+ */
+export type PlayerKnowledge = Partial<Record<KnowledgeKind, KnownPlayer[]>>;
@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RoomSnapshot } from '../Room';
+import { RoomStore } from './types';
+
+/**
+ * JSON file room store
+ * Keeps one `<roomId>.json` file per room inside the given directory.
+ * Writes go to a temporary file first and are renamed into place so a crash
+ * mid-write never leaves a truncated snapshot behind.
+ */
+export class JsonFileRoomStore implements RoomStore {
+    constructor(private directory: string) { }
+
+    async loadAll(): Promise<RoomSnapshot[]> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const files = (await fs.readdir(this.directory)).filter(f => f.endsWith('.json'));
+
+        const snapshots: RoomSnapshot[] = [];
+        for (const file of files) {
+            try {
+                const raw = await fs.readFile(path.join(this.directory, file), 'utf8');
+                snapshots.push(JSON.parse(raw));
+            } catch (error) {
+                console.error(`[JsonFileRoomStore] Skipping unreadable snapshot ${file}:`, error);
+            }
+        }
+        return snapshots;
+    }
+
+    async save(snapshot: RoomSnapshot): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const target = this.fileFor(snapshot.id);
+        const tmp = `${target}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(snapshot), 'utf8');
+        await fs.rename(tmp, target);
+    }
+
+    async delete(roomId: string): Promise<void> {
+        await fs.rm(this.fileFor(roomId), { force: true });
+    }
+
+    private fileFor(roomId: string): string {
+        // Room ids are generated server-side, but never trust them as path segments
+        return path.join(this.directory, `${roomId.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+    }
+}
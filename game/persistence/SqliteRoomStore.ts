@@ -0,0 +1,59 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import type { RoomSnapshot } from '../Room';
+import { RoomStore } from './types';
+
+/**
+ * SQLite room store
+ * Stores each room snapshot as a JSON document in a single `rooms` table.
+ */
+export class SqliteRoomStore implements RoomStore {
+    private db: Database.Database;
+
+    constructor(filename: string) {
+        if (filename !== ':memory:') {
+            mkdirSync(path.dirname(filename), { recursive: true });
+        }
+        this.db = new Database(filename);
+        this.db.pragma('journal_mode = WAL');
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS rooms (
+                id TEXT PRIMARY KEY,
+                data TEXT NOT NULL,
+                updated_at INTEGER NOT NULL
+            )
+        `);
+    }
+
+    async loadAll(): Promise<RoomSnapshot[]> {
+        const rows = this.db.prepare('SELECT id, data FROM rooms').all() as Array<{ id: string; data: string }>;
+
+        const snapshots: RoomSnapshot[] = [];
+        for (const row of rows) {
+            try {
+                snapshots.push(JSON.parse(row.data));
+            } catch (error) {
+                console.error(`[SqliteRoomStore] Skipping unreadable snapshot ${row.id}:`, error);
+            }
+        }
+        return snapshots;
+    }
+
+    async save(snapshot: RoomSnapshot): Promise<void> {
+        this.db
+            .prepare(
+                `INSERT INTO rooms (id, data, updated_at) VALUES (?, ?, ?)
+                 ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+            )
+            .run(snapshot.id, JSON.stringify(snapshot), Date.now());
+    }
+
+    async delete(roomId: string): Promise<void> {
+        this.db.prepare('DELETE FROM rooms WHERE id = ?').run(roomId);
+    }
+
+    async close(): Promise<void> {
+        this.db.close();
+    }
+}
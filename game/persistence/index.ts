@@ -0,0 +1,28 @@
+import { JsonFileRoomStore } from './JsonFileRoomStore';
+import { SqliteRoomStore } from './SqliteRoomStore';
+import { RoomStore } from './types';
+
+export { RoomStore } from './types';
+export { JsonFileRoomStore } from './JsonFileRoomStore';
+export { SqliteRoomStore } from './SqliteRoomStore';
+
+/**
+ * Build the room store selected by environment variables
+ * - ROOM_STORE: 'json' | 'sqlite' | 'memory' (default: 'memory', i.e. no persistence)
+ * - ROOM_STORE_PATH: directory (json) or database file (sqlite)
+ */
+export function createRoomStore(env: NodeJS.ProcessEnv = process.env): RoomStore | undefined {
+    const kind = (env.ROOM_STORE || 'memory').toLowerCase();
+
+    switch (kind) {
+        case 'json':
+            return new JsonFileRoomStore(env.ROOM_STORE_PATH || './data/rooms');
+        case 'sqlite':
+            return new SqliteRoomStore(env.ROOM_STORE_PATH || './data/rooms.db');
+        case 'memory':
+            return undefined;
+        default:
+            console.warn(`[RoomStore] Unknown ROOM_STORE "${kind}", rooms will not be persisted`);
+            return undefined;
+    }
+}
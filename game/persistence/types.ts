@@ -0,0 +1,19 @@
+import type { RoomSnapshot } from '../Room';
+
+/**
+ * Storage backend for room snapshots
+ * Implementations must be safe to call repeatedly with the same room id (upsert)
+ */
+export interface RoomStore {
+    /** Load every persisted room snapshot */
+    loadAll(): Promise<RoomSnapshot[]>;
+
+    /** Insert or replace the snapshot for a room */
+    save(snapshot: RoomSnapshot): Promise<void>;
+
+    /** Remove a room from the store (no-op if it does not exist) */
+    delete(roomId: string): Promise<void>;
+
+    /** Release any resources held by the store */
+    close?(): Promise<void>;
+}
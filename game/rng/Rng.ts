@@ -0,0 +1,80 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ *
+ * Every room owns one instance so that a game can be reproduced exactly from
+ * its seed. All game randomness (role shuffle, starting leader, expansion
+ * picks) must go through the room's Rng instead of Math.random().
+ */
+export class Rng {
+    readonly seed: string;
+    private state: number;
+
+    constructor(seed?: string | number) {
+        this.seed = seed === undefined || seed === '' ? randomBytes(8).toString('hex') : String(seed);
+        this.state = hashSeed(this.seed);
+    }
+
+    /**
+     * Next float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) | 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Next integer in [0, max)
+     */
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    /**
+     * Pick a random element (undefined for an empty list)
+     */
+    pick<T>(items: readonly T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[this.int(items.length)];
+    }
+
+    /**
+     * Unbiased Fisher-Yates shuffle; returns a new array
+     */
+    shuffle<T>(items: readonly T[]): T[] {
+        const result = [...items];
+        for (let i = result.length - 1; i > 0; i--) {
+            const j = this.int(i + 1);
+            [result[i], result[j]] = [result[j], result[i]];
+        }
+        return result;
+    }
+
+    /**
+     * Internal generator state, persisted with the room so a restored game
+     * keeps drawing the same sequence
+     */
+    getState(): number {
+        return this.state;
+    }
+
+    setState(state: number): void {
+        this.state = state | 0;
+    }
+}
+
+// xmur3-style string hash: turns any seed string into a 32-bit starting state
+function hashSeed(seed: string): number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^= h >>> 16) | 0;
+}
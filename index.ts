@@ -3,8 +3,17 @@ import { createServer } from "http";
 import { Server } from "socket.io";
 import cors from "cors";
 import { GameManager } from "./game/GameManager";
+import { Room } from "./game/Room";
+import { TurnTimers, validateTurnTimerConfig } from "./game/TurnTimers";
+import { validateRoomRules } from "./game/RoomRules";
+import { SpectatorFeed, spectatorChannel, validateSpectatorDelay } from "./game/SpectatorFeed";
 import { PLAYER_RECONNECT_TIMEOUT_SECONDS } from "./game/constants";
 import { AVAILABLE_EXPANSIONS } from "./game/expansions";
+import { validateExpansionSelection } from "./game/expansions/validation";
+import { announceNewLeader, resolveMission } from "./game/expansions/helpers";
+import { createRoomStore } from "./game/persistence";
+import { getPublicEvents } from "./game/events/publicLog";
+import { getReplayPage } from "./game/events/timeline";
 
 const app = express();
 
@@ -42,6 +51,11 @@ app.get("/api/expansions", (req, res) => {
     id: expansion.id,
     name: expansion.name,
     version: expansion.version,
+    requires: expansion.requires ?? [],
+    conflictsWith: expansion.conflictsWith ?? [],
+    minPlayers: expansion.minPlayers ?? null,
+    maxPlayers: expansion.maxPlayers ?? null,
+    options: expansion.options ?? {},
   }));
 
   res.json(expansions);
@@ -57,15 +71,41 @@ function isRoomStale(room: any) {
 }
 
 app.get("/api/rooms", (req, res) => {
-  const openRooms = Array.from(gameManager.rooms.values())
-    .filter(room => room.phase === "LOBBY" && !isRoomStale(room))
-    .map(room => ({
-      id: room.id,
-      playerCount: room.players.length,
-      maxPlayers: room.maxPlayers,
-    }));
+  res.json(getOpenRooms());
+});
+
+// API endpoint to get a room's full game log (only once the game is over, to avoid leaking secrets)
+app.get("/api/rooms/:id/events", (req, res) => {
+  const room = gameManager.getRoom(req.params.id);
 
-  res.json(openRooms);
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  if (room.phase !== "GAME_OVER") {
+    return res.status(403).json({ error: "Game log is only available after the game is over" });
+  }
+
+  res.json({
+    roomId: room.id,
+    winner: room.getWinner(),
+    events: getPublicEvents(room.events),
+  });
+});
+
+// API endpoint for the replay viewer: per-round timeline, paginated by round (?page=1&pageSize=1).
+// Roles and expansion secrets are only included once the game is over.
+app.get("/api/rooms/:id/replay", (req, res) => {
+  const room = gameManager.getRoom(req.params.id);
+
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const page = req.query.page ? parseInt(String(req.query.page), 10) : 1;
+  const pageSize = req.query.pageSize ? parseInt(String(req.query.pageSize), 10) : 1;
+
+  res.json(getReplayPage(room, page, pageSize));
 });
 
 // Helper to return open rooms payload (used by API and socket emits)
@@ -76,9 +116,17 @@ function getOpenRooms() {
       id: room.id,
       playerCount: room.players.length,
       maxPlayers: room.maxPlayers,
+      isFull: room.isFull(),
+      locked: room.password !== null,
+      rules: room.rules,
     }));
 }
 
+// Debug endpoints act on behalf of the room host: the request must carry the host's playerId
+function isHostRequest(room: Room, req: express.Request) {
+  const playerId = req.body?.playerId ?? req.query.playerId;
+  return !!room.hostId && playerId === room.hostId;
+}
 
 // Debug endpoint to fill room with bots
 app.post("/debug/fill-room/:roomId", (req, res) => {
@@ -88,6 +136,9 @@ app.post("/debug/fill-room/:roomId", (req, res) => {
   if (!room) {
     return res.status(404).json({ error: "Room not found" });
   }
+  if (!isHostRequest(room, req)) {
+    return res.status(403).json({ error: "Only the host can fill the room" });
+  }
 
   const botNames = [
     "Alice",
@@ -113,7 +164,7 @@ app.post("/debug/fill-room/:roomId", (req, res) => {
     room.addPlayer(botId, botNames[i]);
   }
 
-  io.to(roomId).emit("player_joined", { players: room.players });
+  broadcast(room, "player_joined", { players: room.getPublicPlayers(), hostId: room.hostId });
 
   res.json({
     message: `Added ${neededPlayers} bots`,
@@ -128,6 +179,7 @@ app.post('/debug/set-roles/:roomId', (req, res) => {
   const room = gameManager.getRoom(roomId);
 
   if (!room) return res.status(404).json({ error: 'Room not found' });
+  if (!isHostRequest(room, req)) return res.status(403).json({ error: 'Only the host can set roles' });
   if (!Array.isArray(assignments)) return res.status(400).json({ error: 'Invalid assignments' });
 
   for (const a of assignments) {
@@ -137,6 +189,7 @@ app.post('/debug/set-roles/:roomId', (req, res) => {
       if (typeof a.specialRole !== 'undefined') player.specialRole = a.specialRole;
     }
   }
+  room.touch();
 
   // Emit a state sync to all players so clients update
   io.to(roomId).emit('debug_roles_set', { players: room.players.map(p => ({ id: p.id, playerId: p.playerId, nickname: p.nickname, role: p.role, specialRole: p.specialRole })) });
@@ -151,18 +204,21 @@ app.post('/debug/set-outcome/:roomId', (req, res) => {
   const room = gameManager.getRoom(roomId);
 
   if (!room) return res.status(404).json({ error: 'Room not found' });
+  if (!isHostRequest(room, req)) return res.status(403).json({ error: 'Only the host can set the outcome' });
 
   if (typeof succeededMissions === 'number') room.succeededMissions = succeededMissions;
   if (typeof failedMissions === 'number') room.failedMissions = failedMissions;
   if (typeof currentMissionIndex === 'number') room.currentMissionIndex = currentMissionIndex;
+  if (phase && !room.isPhase(phase)) return res.status(400).json({ error: `Unknown phase: ${phase}` });
   if (phase) room.phase = phase;
+  room.touch();
 
   // If phase is GAME_OVER, emit game_over immediately
   if (room.phase === 'GAME_OVER') {
     const winner = room.getWinner();
-    io.to(roomId).emit('game_over', {
+    broadcast(room, 'game_over', {
       winner,
-      players: room.players.map((p) => ({ id: p.id, nickname: p.nickname, role: p.role, specialRole: p.specialRole || null })),
+      players: room.getRevealedPlayers(),
     });
   }
 
@@ -193,25 +249,92 @@ const io = new Server(httpServer, {
   cors: socketCorsOptions,
 });
 
-const gameManager = new GameManager();
+// Room persistence: set ROOM_STORE=json|sqlite (and optionally ROOM_STORE_PATH) to survive restarts
+const roomStore = createRoomStore();
+
+// Turn deadlines: broadcast each new countdown and apply the default action when it expires
+const turnTimers = new TurnTimers(
+  (room) => {
+    handleTurnTimeout(room).catch((error) =>
+      console.error(`[TurnTimers] Error handling timeout in room ${room.id}:`, error)
+    );
+  },
+  (room) => broadcast(room, "phase_deadline", room.getPhaseDeadline())
+);
+
+// Spectators sit in their own socket.io room and get the public broadcasts relayed (optionally delayed)
+const spectatorFeed = new SpectatorFeed((channel, event, payload) => io.to(channel).emit(event, payload));
+
+const gameManager = new GameManager(roomStore, turnTimers, spectatorFeed);
+
+/**
+ * Send a public event to every player in the room; it is relayed to the room's spectators too
+ */
+function broadcast(room: Room, event: string, payload?: unknown): void {
+  io.to(room.id).emit(event, payload);
+  room.onBroadcast?.(event, payload);
+}
 
 // Debug mode: Set DEBUG_MIN_PLAYERS=1 (or 2) to test with fewer players
 const DEBUG_MIN_PLAYERS = process.env.DEBUG_MIN_PLAYERS
   ? parseInt(process.env.DEBUG_MIN_PLAYERS, 10)
   : undefined;
 
+/**
+ * Accept an optional RNG seed from clients (string or finite number, max 64 chars)
+ * Anything else is ignored and the room gets a random seed.
+ * Only create_room_debug (or create_room in debug mode) takes a seed.
+ */
+function parseSeed(seed: unknown): string | undefined {
+  if (typeof seed === "number" && Number.isFinite(seed)) return String(seed);
+  if (typeof seed === "string" && seed.length > 0 && seed.length <= 64) return seed;
+  return undefined;
+}
+
+const MAX_PASSWORD_LENGTH = 64;
+
+/**
+ * Validate the optional room password from create_room (empty or missing = no password)
+ */
+function parsePassword(password: unknown): { password: string | null; error?: string } {
+  if (password === undefined || password === null || password === "") return { password: null };
+  if (typeof password !== "string" || password.length > MAX_PASSWORD_LENGTH) {
+    return { password: null, error: `password must be a string of at most ${MAX_PASSWORD_LENGTH} characters` };
+  }
+  return { password };
+}
+
 /**
  * Register socket event handlers for all expansions active in a room
  * Called once when a socket joins a room to set up expansion-specific handlers
  */
+// Expansion handlers each socket already has, as "<roomId>:<expansionId>"
+const registeredExpansionHandlers = new WeakMap<object, Set<string>>();
+
 function registerExpansionHandlers(socket: any, room: any, io: any): void {
   if (!room || !room.expansions || room.expansions.length === 0) return;
 
+  const registered = registeredExpansionHandlers.get(socket) || new Set<string>();
+  registeredExpansionHandlers.set(socket, registered);
+
   room.expansions.forEach((expansionId: string) => {
     const expansion = AVAILABLE_EXPANSIONS[expansionId as keyof typeof AVAILABLE_EXPANSIONS];
-    if (expansion && expansion.registerSocketHandlers) {
+    const key = `${room.id}:${expansionId}`;
+    if (expansion && expansion.registerSocketHandlers && !registered.has(key)) {
       try {
-        expansion.registerSocketHandlers(socket, room, io);
+        // Handlers stay on the socket; they only run while the room still plays the expansion
+        // (the host may change expansions in the lobby, see update_expansions)
+        const guarded = new Proxy(socket, {
+          get: (target, property) =>
+            property === "on"
+              ? (event: string, handler: (...args: any[]) => unknown) =>
+                  target.on(event, (...args: any[]) =>
+                    room.expansions.includes(expansionId) ? handler(...args) : undefined
+                  )
+              : Reflect.get(target, property),
+        });
+        expansion.registerSocketHandlers(guarded, room, io);
+        registered.add(key);
         console.log(`[ExpansionHandlers] Registered ${expansionId} handlers for socket ${socket.id}`);
       } catch (error) {
         console.error(`[ExpansionHandlers] Error registering ${expansionId} handlers:`, error);
@@ -220,13 +343,179 @@ function registerExpansionHandlers(socket: any, room: any, io: any): void {
   });
 }
 
+/**
+ * Privately tell every player their role and what it lets them see.
+ * Knowledge (spies, Merlin candidates) comes from the room's knowledge model,
+ * the same one getGameState uses.
+ */
+function sendRoleAssignments(room: Room): void {
+  room.players.forEach((player) => {
+    const payload: any = {
+      role: player.role,
+      specialRole: player.specialRole || null,
+      ...room.getKnowledge(player),
+    };
+
+    console.log(`[Server] Sending role_assigned to ${player.nickname} (${player.role}):`, {
+      role: payload.role,
+      specialRole: payload.specialRole,
+      spies: payload.spies ? `${payload.spies.length} spies` : 'undefined'
+    });
+
+    io.to(player.id).emit("role_assigned", payload);
+  });
+}
+
+/**
+ * Tally the votes once every player voted (or the vote deadline filled in the rest)
+ * and broadcast the outcome
+ */
+function completeVoting(room: Room): void {
+  const roomId = room.id;
+  // Capture votes before tallying (which clears them)
+  const votesToReveal = room.getRevealedVotes();
+
+  const result = room.tallyVotes();
+  console.log(
+    `Vote result for room ${roomId}:`,
+    result,
+    "votes:",
+    votesToReveal
+  );
+
+  // Emit vote_result to clients so they can update their UI
+  broadcast(room, "vote_result", {
+    ...result,
+    votes: votesToReveal,
+    phase: room.phase,
+    voteRejections: room.voteRejections,
+    deadline: room.getPhaseDeadline(),
+  });
+
+  // Decide follow-up emits based on the tally result
+  if (!result.approved) {
+    // Vote rejected
+    if (result.penaltyApplied) {
+      // 5 rejections penalty applied: emit mission_result (failed by rejection)
+      broadcast(room, "mission_result", {
+        success: false,
+        failCount: 0,
+        byRejection: true,
+        succeededMissions: room.succeededMissions,
+        failedMissions: room.failedMissions,
+        phase: room.phase,
+        missionIndex: room.currentMissionIndex,
+        missionHistory: room.missionHistory,
+        deadline: room.getPhaseDeadline(),
+      });
+
+      // If the game ended due to the penalty, emit game_over
+      if (room.phase === "GAME_OVER") {
+        broadcast(room, "game_over", {
+          winner: room.getWinner(),
+          players: room.getRevealedPlayers(),
+        });
+      } else {
+        // otherwise continue with next leader info
+        announceNewLeader(io, room);
+      }
+    } else {
+      // Normal rejection: new leader and continue
+      announceNewLeader(io, room);
+    }
+  } else {
+    // Approved -> mission phase already set in Room; nothing extra here (client handles mission state)
+  }
+}
+
+/**
+ * A phase deadline expired: apply the room's default action and continue the game
+ * exactly as if the missing players had acted
+ */
+async function handleTurnTimeout(room: Room): Promise<void> {
+  const timeout = room.applyTimeoutDefault();
+  if (!timeout) return;
+
+  console.log(`[TurnTimers] ${timeout.phase} timed out in room ${room.id}`);
+  broadcast(room, "turn_timeout", {
+    phase: timeout.phase,
+    players: timeout.playerIds
+      .map((pid) => room.getPlayerByPlayerId(pid)?.id)
+      .filter((sid): sid is string => !!sid),
+  });
+
+  if (timeout.phase === "TEAM_SELECTION") {
+    announceNewLeader(io, room);
+  } else if (timeout.phase === "VOTE") {
+    if (room.votes.size === room.players.length) {
+      completeVoting(room);
+    }
+  } else if (timeout.phase === "MISSION") {
+    if (room.phase === "MISSION" && room.missionActions.size === room.selectedTeam.length) {
+      await resolveMission(io, room);
+    }
+  } else {
+    await room.getExpansionPhaseTimeout(timeout.phase)?.announce?.(room, io);
+  }
+}
+
 io.on("connection", (socket) => {
   console.log(`User connected: ${socket.id}`);
 
   socket.on(
     "create_room",
-    ({ nickname, expansions, playerId }: { nickname: string; expansions?: string[]; playerId?: string }) => {
-      const room = gameManager.createRoom(DEBUG_MIN_PLAYERS, expansions, io);
+    ({
+      nickname,
+      expansions,
+      playerId,
+      seed,
+      turnTimers,
+      rules,
+      spectatorDelaySeconds,
+      password,
+    }: {
+      nickname: string;
+      expansions?: Array<string | { id: string; options?: Record<string, unknown> }>;
+      playerId?: string;
+      seed?: string | number;
+      turnTimers?: unknown;
+      rules?: unknown;
+      spectatorDelaySeconds?: unknown;
+      password?: unknown;
+    }) => {
+      const timers = validateTurnTimerConfig(turnTimers);
+      if (timers.errors.length > 0) {
+        socket.emit("error", `Invalid turn timers: ${timers.errors.join("; ")}`);
+        return;
+      }
+      const roomRules = validateRoomRules(rules);
+      if (roomRules.errors.length > 0) {
+        socket.emit("error", `Invalid rules: ${roomRules.errors.join("; ")}`);
+        return;
+      }
+      const spectatorDelay = validateSpectatorDelay(spectatorDelaySeconds);
+      if (spectatorDelay.errors.length > 0) {
+        socket.emit("error", `Invalid spectator delay: ${spectatorDelay.errors.join("; ")}`);
+        return;
+      }
+      const roomPassword = parsePassword(password);
+      if (roomPassword.error) {
+        socket.emit("error", `Invalid password: ${roomPassword.error}`);
+        return;
+      }
+      const selection = validateExpansionSelection(expansions);
+      if (selection.errors.length > 0) {
+        socket.emit("error", `Invalid expansions: ${selection.errors.join("; ")}`);
+        return;
+      }
+
+      // A chosen seed makes the deal predictable: public rooms only take one in debug mode
+      const roomSeed = DEBUG_MIN_PLAYERS !== undefined ? parseSeed(seed) : undefined;
+      const room = gameManager.createRoom(DEBUG_MIN_PLAYERS, selection.expansions, io, roomSeed, selection.options);
+      room.timerConfig = timers.config;
+      if (rules !== undefined) room.setRules(roomRules.rules);
+      room.spectatorDelaySeconds = spectatorDelay.delaySeconds;
+      room.password = roomPassword.password;
       (socket as any).room = room;
       registerExpansionHandlers(socket, room, io);
       const player = room.addPlayer(socket.id, nickname, playerId);
@@ -236,9 +525,13 @@ io.on("connection", (socket) => {
         player,
         minPlayers: room.minPlayers,
         expansions: room.expansions,
+        turnTimers: room.timerConfig,
+        rules: room.rules,
+        spectatorDelaySeconds: room.spectatorDelaySeconds,
+        locked: room.password !== null,
       });
       console.log(
-        `Room created: ${room.id} by ${nickname} (playerId: ${player.playerId}) with expansions: ${expansions?.join(", ") || "none"
+        `Room created: ${room.id} by ${nickname} (playerId: ${player.playerId}) with expansions: ${selection.expansions.join(", ") || "none"
         }`
       );
       // Broadcast room list update
@@ -254,13 +547,53 @@ io.on("connection", (socket) => {
       minPlayers,
       expansions,
       playerId,
+      seed,
+      turnTimers,
+      rules,
+      spectatorDelaySeconds,
+      password,
     }: {
       nickname: string;
       minPlayers: number;
-      expansions?: string[];
+      expansions?: Array<string | { id: string; options?: Record<string, unknown> }>;
       playerId?: string;
+      seed?: string | number;
+      turnTimers?: unknown;
+      rules?: unknown;
+      spectatorDelaySeconds?: unknown;
+      password?: unknown;
     }) => {
-      const room = gameManager.createRoom(minPlayers, expansions, io);
+      const timers = validateTurnTimerConfig(turnTimers);
+      if (timers.errors.length > 0) {
+        socket.emit("error", `Invalid turn timers: ${timers.errors.join("; ")}`);
+        return;
+      }
+      const roomRules = validateRoomRules(rules);
+      if (roomRules.errors.length > 0) {
+        socket.emit("error", `Invalid rules: ${roomRules.errors.join("; ")}`);
+        return;
+      }
+      const spectatorDelay = validateSpectatorDelay(spectatorDelaySeconds);
+      if (spectatorDelay.errors.length > 0) {
+        socket.emit("error", `Invalid spectator delay: ${spectatorDelay.errors.join("; ")}`);
+        return;
+      }
+      const roomPassword = parsePassword(password);
+      if (roomPassword.error) {
+        socket.emit("error", `Invalid password: ${roomPassword.error}`);
+        return;
+      }
+      const selection = validateExpansionSelection(expansions);
+      if (selection.errors.length > 0) {
+        socket.emit("error", `Invalid expansions: ${selection.errors.join("; ")}`);
+        return;
+      }
+
+      const room = gameManager.createRoom(minPlayers, selection.expansions, io, parseSeed(seed), selection.options);
+      room.timerConfig = timers.config;
+      if (rules !== undefined) room.setRules(roomRules.rules);
+      room.spectatorDelaySeconds = spectatorDelay.delaySeconds;
+      room.password = roomPassword.password;
       (socket as any).room = room;
       registerExpansionHandlers(socket, room, io);
       const player = room.addPlayer(socket.id, nickname, playerId);
@@ -270,10 +603,14 @@ io.on("connection", (socket) => {
         player,
         minPlayers: room.minPlayers,
         expansions: room.expansions,
+        turnTimers: room.timerConfig,
+        rules: room.rules,
+        spectatorDelaySeconds: room.spectatorDelaySeconds,
+        locked: room.password !== null,
       });
       console.log(
         `Debug room created: ${room.id
-        } by ${nickname} (playerId: ${player.playerId}, minPlayers: ${minPlayers}, expansions: ${expansions?.join(", ") || "none"
+        } by ${nickname} (playerId: ${player.playerId}, minPlayers: ${minPlayers}, expansions: ${selection.expansions.join(", ") || "none"
         })`
       );
 
@@ -307,7 +644,7 @@ io.on("connection", (socket) => {
       //       });
 
       //       // Broadcast game state to all players in room
-      //       io.to(room.id).emit("game_started", {
+      //       io.to(roomId).emit("game_started", {
       //         phase: room.phase,
       //         currentLeader: room.players[room.currentLeaderIndex],
       //         missionIndex: room.currentMissionIndex,
@@ -331,25 +668,43 @@ io.on("connection", (socket) => {
 
   socket.on(
     "join_room",
-    async ({ roomId, nickname, playerId }: { roomId: string; nickname: string; playerId?: string }) => {
+    async ({
+      roomId,
+      nickname,
+      playerId,
+      password,
+    }: {
+      roomId: string;
+      nickname: string;
+      playerId?: string;
+      password?: string;
+    }) => {
       const room = gameManager.getRoom(roomId);
       if (room) {
-        (socket as any).room = room;
-        let existingPlayer = null;
-
-        // First, try to find by playerId if provided
-        if (playerId) {
-          existingPlayer = room.getPlayerByPlayerId(playerId);
+        // A seat is only taken back with its playerId: a nickname is public, so rejoining
+        // by nickname would hand the seat (and its role) to anyone past the password and kick checks
+        const existingPlayer = playerId ? room.getPlayerByPlayerId(playerId) : undefined;
+
+        // A seat whose socket is still connected is never handed to another socket
+        if (existingPlayer && existingPlayer.id !== socket.id && io.sockets.sockets.has(existingPlayer.id)) {
+          socket.emit("join_error", { roomId, code: "SEAT_TAKEN", message: "This seat is already connected" });
+          console.log(`Player ${nickname} refused from room ${roomId}: SEAT_TAKEN`);
+          return;
         }
 
-        // If not found by playerId, try nickname (backward compatibility)
         if (!existingPlayer) {
-          existingPlayer = room.players.find((p) => p.nickname === nickname);
+          const joinError = room.checkAdmission(nickname, password);
+          if (joinError) {
+            socket.emit("join_error", { roomId, ...joinError });
+            console.log(`Player ${nickname} refused from room ${roomId}: ${joinError.code}`);
+            return;
+          }
         }
 
+        (socket as any).room = room;
         if (existingPlayer) {
           // Reconnect existing player with new socket ID
-          existingPlayer.id = socket.id;
+          room.reconnectPlayer(existingPlayer.playerId, socket.id);
           socket.join(roomId);
           registerExpansionHandlers(socket, room, io);
 
@@ -359,7 +714,7 @@ io.on("connection", (socket) => {
           socket.emit("game_state_sync", gameState);
 
           // Notify all players about the reconnection
-          io.to(roomId).emit("player_joined", { players: room.players });
+          broadcast(room, "player_joined", { players: room.getPublicPlayers(), hostId: room.hostId });
           console.log(
             `Player ${nickname} (playerId: ${existingPlayer.playerId}) reconnected to room ${roomId} with new socket ${socket.id}`
           );
@@ -378,7 +733,7 @@ io.on("connection", (socket) => {
           });
 
           // Notify all players about the new player
-          io.to(roomId).emit("player_joined", { players: room.players });
+          broadcast(room, "player_joined", { players: room.getPublicPlayers(), hostId: room.hostId });
           console.log(`Player ${nickname} (playerId: ${player.playerId}) joined room ${roomId}`);
 
           // Broadcast room list update
@@ -440,6 +795,62 @@ io.on("connection", (socket) => {
     }
   );
 
+  // Watch a room without taking a seat: spectators get a role-free view and the
+  // public broadcasts, delayed by the room's spectatorDelaySeconds
+  socket.on(
+    "join_as_spectator",
+    async ({
+      roomId,
+      nickname,
+      spectatorId,
+      password,
+    }: {
+      roomId: string;
+      nickname: string;
+      spectatorId?: string;
+      password?: string;
+    }) => {
+      const room = gameManager.getRoom(roomId);
+      if (!room) {
+        socket.emit("error", "Room not found");
+        return;
+      }
+
+      const passwordError = room.checkPassword(password);
+      if (passwordError) {
+        socket.emit("join_error", { roomId, ...passwordError });
+        console.log(`Spectator ${nickname} refused from room ${roomId}: ${passwordError.code}`);
+        return;
+      }
+
+      const spectator = room.addSpectator(socket.id, nickname, spectatorId);
+      socket.join(spectatorChannel(roomId));
+      socket.emit("joined_as_spectator", {
+        roomId,
+        spectator,
+        spectatorDelaySeconds: room.spectatorDelaySeconds,
+      });
+      spectatorFeed.publish(room, "spectator_state_sync", await room.getSpectatorState(), socket.id);
+
+      broadcast(room, "spectators_updated", { spectators: room.getPublicSpectators() });
+      console.log(`Spectator ${nickname} (spectatorId: ${spectator.spectatorId}) is watching room ${roomId}`);
+    }
+  );
+
+  socket.on("get_spectator_state", async (roomId: string) => {
+    const room = gameManager.getRoom(roomId);
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+    if (!room.getSpectator(socket.id)) {
+      socket.emit("error", "Spectator not in room");
+      return;
+    }
+
+    spectatorFeed.publish(room, "spectator_state_sync", await room.getSpectatorState(), socket.id);
+  });
+
   socket.on("get_game_state", async (roomId: string) => {
     const room = gameManager.getRoom(roomId);
     if (!room) {
@@ -462,38 +873,39 @@ io.on("connection", (socket) => {
   socket.on("restart_game", async (roomId: string) => {
     const room = gameManager.getRoom(roomId);
     if (!room) return;
+    if (!room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can restart the game");
+      return;
+    }
+    if (room.phase !== "GAME_OVER") {
+      socket.emit("error", "The game can only be restarted once it is over");
+      return;
+    }
+    // Players may have left since the last game: check the table as start_game does
+    if (room.players.length < room.minPlayers) {
+      socket.emit("error", `Cannot restart the game: at least ${room.minPlayers} players are needed`);
+      return;
+    }
+    const selection = validateExpansionSelection(room.expansions, room.players.length);
+    if (selection.errors.length > 0) {
+      socket.emit("error", `Cannot restart the game: ${selection.errors.join("; ")}`);
+      return;
+    }
 
     // Reset game state
     await room.resetGame();
 
-    // Send role info to each player privately (include specialRole and spies visibility for MERLIN)
-    const spiesList = room.players
-      .filter((p) => p.role === "SPY")
-      .map((p) => ({ id: p.id, nickname: p.nickname }));
-
-    room.players.forEach((player) => {
-      const payload: any = {
-        role: player.role,
-        specialRole: player.specialRole || null,
-      };
-
-      if (player.specialRole === "MERLIN") {
-        payload.spies = spiesList;
-      }
-
-      if (player.role === "SPY") {
-        payload.spies = spiesList;
-      }
-
-      io.to(player.id).emit("role_assigned", payload);
-    });
+    // Send role info to each player privately (roles, and who they know about)
+    sendRoleAssignments(room);
 
     // Broadcast game state to all players in room
-    io.to(roomId).emit("game_started", {
+    broadcast(room, "game_started", {
       phase: room.phase,
-      currentLeader: room.players[room.currentLeaderIndex],
+      currentLeader: room.getCurrentLeader(),
       missionIndex: room.currentMissionIndex,
       missionSize: room.getCurrentMissionSize(),
+      failsRequired: room.getRequiredFails(),
+      deadline: room.getPhaseDeadline(),
       players: room.players.map((p) => ({
         id: p.id,
         nickname: p.nickname,
@@ -506,43 +918,147 @@ io.on("connection", (socket) => {
     io.emit("room_list_update", getOpenRooms());
   });
 
-  socket.on("start_game", async (roomId: string) => {
+  // Host removes a player from the lobby
+  socket.on("kick_player", ({ roomId, playerId }: { roomId: string; playerId: string }) => {
     const room = gameManager.getRoom(roomId);
-    if (room && await room.startGame()) {
-      // Send role info to each player privately (include specialRole and spies visibility for MERLIN)
-      const spiesList = room.players
-        .filter((p) => p.role === "SPY")
-        .map((p) => ({ id: p.id, nickname: p.nickname }));
-
-      room.players.forEach((player) => {
-        const payload: any = {
-          role: player.role,
-          specialRole: player.specialRole || null,
-        };
-
-        if (player.specialRole === "MERLIN") {
-          payload.spies = spiesList;
-        }
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+    if (!room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can kick players");
+      return;
+    }
+    if (room.phase !== "LOBBY") {
+      socket.emit("error", "Players can only be kicked in the lobby");
+      return;
+    }
 
-        if (player.role === "SPY") {
-          payload.spies = spiesList;
-        }
+    const kicked = room.kickPlayer(playerId);
+    if (!kicked) {
+      socket.emit("error", "Player cannot be kicked");
+      return;
+    }
 
-        console.log(`[Server] Sending role_assigned to ${player.nickname} (${player.role}):`, {
-          role: payload.role,
-          specialRole: payload.specialRole,
-          spies: payload.spies ? `${payload.spies.length} spies` : 'undefined'
-        });
+    io.to(kicked.id).emit("player_kicked", { roomId });
+    io.sockets.sockets.get(kicked.id)?.leave(roomId);
+    broadcast(room, "player_left", {
+      playerId: kicked.playerId,
+      players: room.getPublicPlayers(),
+      hostId: room.hostId,
+    });
+    console.log(`Player ${kicked.nickname} (playerId: ${kicked.playerId}) was kicked from room ${roomId}`);
+    io.emit("room_list_update", getOpenRooms());
+  });
 
-        io.to(player.id).emit("role_assigned", payload);
-      });
+  // Host hands the room over to another player
+  socket.on("transfer_host", ({ roomId, playerId }: { roomId: string; playerId: string }) => {
+    const room = gameManager.getRoom(roomId);
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+    if (!room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can transfer hosting");
+      return;
+    }
+
+    if (!room.transferHost(playerId)) {
+      socket.emit("error", "Player not in room");
+      return;
+    }
+    broadcast(room, "host_changed", { hostId: room.hostId, players: room.getPublicPlayers() });
+  });
+
+  // Host edits the room rules while still in the lobby
+  socket.on("update_rules", ({ roomId, rules }: { roomId: string; rules: unknown }) => {
+    const room = gameManager.getRoom(roomId);
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+    if (!room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can change the rules");
+      return;
+    }
+    if (room.phase !== "LOBBY") {
+      socket.emit("error", "Rules can only be changed in the lobby");
+      return;
+    }
+
+    const result = validateRoomRules(rules, room.rules);
+    if (result.errors.length > 0) {
+      socket.emit("error", `Invalid rules: ${result.errors.join("; ")}`);
+      return;
+    }
+
+    room.setRules(result.rules);
+    broadcast(room, "rules_updated", { rules: room.rules });
+    io.emit("room_list_update", getOpenRooms());
+  });
+
+  // Host changes the expansions while still in the lobby
+  socket.on("update_expansions", ({ roomId, expansions }: { roomId: string; expansions: unknown }) => {
+    const room = gameManager.getRoom(roomId);
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+    if (!room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can change the expansions");
+      return;
+    }
+    if (room.phase !== "LOBBY") {
+      socket.emit("error", "Expansions can only be changed in the lobby");
+      return;
+    }
+
+    const selection = validateExpansionSelection(expansions);
+    if (selection.errors.length > 0) {
+      socket.emit("error", `Invalid expansions: ${selection.errors.join("; ")}`);
+      return;
+    }
+
+    gameManager.setExpansions(room, selection.expansions, selection.options, io);
+    // Seated players need the handlers of the expansions just added
+    room.players.forEach((p) => {
+      const playerSocket = io.sockets.sockets.get(p.id);
+      if (playerSocket) registerExpansionHandlers(playerSocket, room, io);
+    });
+
+    broadcast(room, "expansions_updated", { expansions: room.expansions, expansionOptions: room.expansionOptions });
+    console.log(`Expansions of room ${roomId} changed to: ${room.expansions.join(", ") || "none"}`);
+    io.emit("room_list_update", getOpenRooms());
+  });
+
+  socket.on("start_game", async (roomId: string) => {
+    const room = gameManager.getRoom(roomId);
+    if (room && !room.isHost(socket.id)) {
+      socket.emit("error", "Only the host can start the game");
+      return;
+    }
+    if (room && room.phase !== "LOBBY") {
+      socket.emit("error", "The game has already started");
+      return;
+    }
+    // Player counts are only known now: the expansions may not support this many players
+    const selection = room ? validateExpansionSelection(room.expansions, room.players.length) : null;
+    if (selection && selection.errors.length > 0) {
+      socket.emit("error", `Cannot start the game: ${selection.errors.join("; ")}`);
+      return;
+    }
+    if (room && await room.startGame()) {
+      // Send role info to each player privately (roles, and who they know about)
+      sendRoleAssignments(room);
 
       // Broadcast game state to all players in room
-      io.to(roomId).emit("game_started", {
+      broadcast(room, "game_started", {
         phase: room.phase,
-        currentLeader: room.players[room.currentLeaderIndex],
+        currentLeader: room.getCurrentLeader(),
         missionIndex: room.currentMissionIndex,
         missionSize: room.getCurrentMissionSize(),
+        failsRequired: room.getRequiredFails(),
+        deadline: room.getPhaseDeadline(),
         players: room.players.map((p) => ({
           id: p.id,
           nickname: p.nickname,
@@ -558,7 +1074,7 @@ io.on("connection", (socket) => {
 
   socket.on(
     "select_team",
-    (payload: { roomId: string; playerIds?: string[]; selectedPlayers?: string[] }) => {
+    (payload: { roomId: string; playerIds?: string[]; selectedPlayers?: string[]; missionIndex?: number }) => {
       try {
         const { roomId } = payload;
         console.log(`[select_team] received from socket ${socket.id} payload:`, payload);
@@ -608,14 +1124,24 @@ io.on("connection", (socket) => {
           return;
         }
 
+        // With the targeting rule the leader also picks the mission (defaults to the current one)
+        const missionIndex = payload.missionIndex ?? room.currentMissionIndex;
+        if (!room.getTargetableMissions().includes(missionIndex)) {
+          socket.emit("error", "This mission cannot be attempted now");
+          return;
+        }
+
         // Call Room.selectTeam with socket IDs (current Room implementation expects socket IDs)
-        if (room.selectTeam(resolvedSocketIds)) {
+        if (room.selectTeam(resolvedSocketIds, missionIndex)) {
           // Emit both socket IDs and internal playerIds for clients' convenience
-          io.to(roomId).emit("team_selected", {
+          broadcast(room, "team_selected", {
             selectedTeam: room.getSelectedTeamSocketIds(),
             selectedTeamSocketIds: room.getSelectedTeamSocketIds(),
             selectedTeamPlayerIds: room.selectedTeam,
+            missionIndex: room.currentMissionIndex,
+            missionSize: room.getCurrentMissionSize(),
             phase: room.phase,
+            deadline: room.getPhaseDeadline(),
           });
           console.log(`[select_team] Team selected in room ${roomId}`);
         } else {
@@ -634,78 +1160,17 @@ io.on("connection", (socket) => {
     ({ roomId, approve }: { roomId: string; approve: boolean }) => {
       const room = gameManager.getRoom(roomId);
       if (room) {
-        room.submitVote(socket.id, approve);
+        if (!room.submitVote(socket.id, approve)) {
+          socket.emit("error", "Your vote was refused");
+          return;
+        }
 
         // Notify all players that this player has voted
-        io.to(roomId).emit("vote_submitted", { playerId: socket.id });
+        broadcast(room, "vote_submitted", { playerId: socket.id });
 
         // Check if all votes are in
         if (room.votes.size === room.players.length) {
-          // Capture votes before tallying (which clears them)
-          const votesToReveal = room.getRevealedVotes();
-
-          const result = room.tallyVotes();
-          console.log(
-            `Vote result for room ${roomId}:`,
-            result,
-            "votes:",
-            votesToReveal
-          );
-
-          // Emit vote_result to clients so they can update their UI
-          io.to(roomId).emit("vote_result", {
-            ...result,
-            votes: votesToReveal,
-            phase: room.phase,
-            voteRejections: room.voteRejections,
-          });
-
-          // Decide follow-up emits based on the tally result
-          if (!result.approved) {
-            // Vote rejected
-            if (result.penaltyApplied) {
-              // 5 rejections penalty applied: emit mission_result (failed by rejection)
-              io.to(roomId).emit("mission_result", {
-                success: false,
-                failCount: 0,
-                byRejection: true,
-                succeededMissions: room.succeededMissions,
-                failedMissions: room.failedMissions,
-                phase: room.phase,
-                missionIndex: room.currentMissionIndex,
-                missionHistory: room.missionHistory,
-              });
-
-              // If the game ended due to the penalty, emit game_over
-              if (room.phase === "GAME_OVER") {
-                const resistanceWon = room.succeededMissions >= 3;
-                io.to(roomId).emit("game_over", {
-                  winner: resistanceWon ? "RESISTANCE" : "SPY",
-                  players: room.players.map((p) => ({
-                    id: p.id,
-                    nickname: p.nickname,
-                    role: p.role,
-                    specialRole: p.specialRole || null,
-                  })),
-                });
-              } else {
-                // otherwise continue with next leader info
-                io.to(roomId).emit("new_leader", {
-                  currentLeader: room.players[room.currentLeaderIndex],
-                  missionIndex: room.currentMissionIndex,
-                  missionSize: room.getCurrentMissionSize(),
-                });
-              }
-            } else {
-              // Normal rejection: new leader and continue
-              io.to(roomId).emit("new_leader", {
-                currentLeader: room.players[room.currentLeaderIndex],
-                missionSize: room.getCurrentMissionSize(),
-              });
-            }
-          } else {
-            // Approved -> mission phase already set in Room; nothing extra here (client handles mission state)
-          }
+          completeVoting(room);
         }
       }
     }
@@ -717,52 +1182,11 @@ io.on("connection", (socket) => {
       const room = gameManager.getRoom(roomId);
       if (room && room.submitMissionAction(socket.id, success)) {
         // Notify all players that this player has submitted their action
-        io.to(roomId).emit("mission_action_submitted", { playerId: socket.id });
-
-        // Check if all mission actions are in
-        if (room.missionActions.size === room.selectedTeam.length) {
-          const result = await room.resolveMission();
-          io.to(roomId).emit("mission_result", {
-            ...result,
-            votes: Object.fromEntries(result.votes), // Convert Map to object
-            succeededMissions: room.succeededMissions,
-            failedMissions: room.failedMissions,
-            phase: room.phase,
-            missionHistory: room.missionHistory,
-          });
+        broadcast(room, "mission_action_submitted", { playerId: socket.id });
 
-          if (room.phase === "TEAM_SELECTION") {
-            // Next mission
-            io.to(roomId).emit("new_leader", {
-              currentLeader: room.players[room.currentLeaderIndex],
-              missionIndex: room.currentMissionIndex,
-              missionSize: room.getCurrentMissionSize(),
-            });
-          } else if (room.phase === "ASSASSINATION") {
-            // Start assassination phase
-            const assassin = room.players.find(
-              (p) => p.specialRole === "ASSASSIN"
-            );
-            io.to(roomId).emit("assassination_phase", {
-              assassinId: assassin?.id || null,
-              players: room.players.map((p) => ({
-                id: p.id,
-                nickname: p.nickname,
-              })),
-            });
-          } else if (room.phase === "GAME_OVER") {
-            // Game ended
-            const resistanceWon = room.succeededMissions >= 3;
-            io.to(roomId).emit("game_over", {
-              winner: resistanceWon ? "RESISTANCE" : "SPY",
-              players: room.players.map((p) => ({
-                id: p.id,
-                nickname: p.nickname,
-                role: p.role,
-                specialRole: p.specialRole || null,
-              })),
-            });
-          }
+        // Check if all mission actions are in (an expansion may hold the resolution in its own phase)
+        if (room.phase === "MISSION" && room.missionActions.size === room.selectedTeam.length) {
+          await resolveMission(io, room);
         }
       }
     }
@@ -774,6 +1198,14 @@ io.on("connection", (socket) => {
   socket.on("disconnect", () => {
     console.log(`User disconnected: ${socket.id}`);
 
+    // Spectators hold no seat: drop them right away (they re-join with the same spectatorId)
+    gameManager.rooms.forEach((room) => {
+      if (room.getSpectator(socket.id)) {
+        room.removeSpectator(socket.id);
+        broadcast(room, "spectators_updated", { spectators: room.getPublicSpectators() });
+      }
+    });
+
     // Find which room this socket belongs to
     let playerRoom: any = null;
     let disconnectedPlayer: any = null;
@@ -787,17 +1219,40 @@ io.on("connection", (socket) => {
     });
 
     if (playerRoom && disconnectedPlayer) {
+      // An expansion may keep the seat for the player, however long they are away
+      const releaseSeat = playerRoom.handleDisconnect(socket.id);
+
+      // A disconnected host hands the room over to a player who is still connected
+      if (playerRoom.hostId === disconnectedPlayer.playerId) {
+        const nextHost = playerRoom.players.find(
+          (p: any) => p.playerId !== disconnectedPlayer.playerId && io.sockets.sockets.has(p.id)
+        );
+        if (nextHost && playerRoom.transferHost(nextHost.playerId)) {
+          broadcast(playerRoom, "host_changed", { hostId: playerRoom.hostId, players: playerRoom.getPublicPlayers() });
+        }
+      }
+
+      if (!releaseSeat) {
+        console.log(`Player ${disconnectedPlayer.nickname} keeps their seat in room ${playerRoom.id}`);
+        return;
+      }
+
       // Set a timeout to remove the player after PLAYER_RECONNECT_TIMEOUT_SECONDS
       const timeout = setTimeout(() => {
         // Check if player is still disconnected (not reconnected)
         const currentPlayer = playerRoom.getPlayerByPlayerId(disconnectedPlayer.playerId);
         if (currentPlayer && currentPlayer.id === socket.id) {
-          // Player never reconnected, remove them
+          // Player never reconnected, remove them (hosting passes on if they were the host)
+          const previousHostId = playerRoom.hostId;
           playerRoom.removePlayer(socket.id);
-          io.to(playerRoom.id).emit("player_left", {
+          broadcast(playerRoom, "player_left", {
             playerId: disconnectedPlayer.playerId,
-            players: playerRoom.players,
+            players: playerRoom.getPublicPlayers(),
+            hostId: playerRoom.hostId,
           });
+          if (playerRoom.hostId !== previousHostId) {
+            broadcast(playerRoom, "host_changed", { hostId: playerRoom.hostId, players: playerRoom.getPublicPlayers() });
+          }
           console.log(
             `Player ${disconnectedPlayer.nickname} (playerId: ${disconnectedPlayer.playerId}) removed from room ${playerRoom.id} after disconnect timeout`
           );
@@ -827,6 +1282,7 @@ io.on("connection", (socket) => {
       socket.emit("room_players_list", {
         roomId,
         players: playersWithStatus,
+        spectators: room.spectators.map((s) => ({ nickname: s.nickname })),
         gameStarted: room.phase !== "LOBBY",
       });
       console.log(`Sent players list for room ${roomId}:`, playersWithStatus);
@@ -834,56 +1290,27 @@ io.on("connection", (socket) => {
       socket.emit("error", "Room not found");
     }
   });
-
-  // Handle assassination event during ASSASSINATION phase
-  socket.on(
-    "assassinate",
-    ({ roomId, targetId }: { roomId: string; targetId: string }) => {
-      const room = gameManager.getRoom(roomId);
-      if (!room) return;
-      // Ensure only the assassin can perform this action
-      const assassin = room.players.find((p) => p.specialRole === "ASSASSIN");
-      if (!assassin || socket.id !== assassin.id) {
-        io.to(socket.id).emit("assassination_error", {
-          message: "Apenas o Assassino pode executar esta ação.",
-        });
-        return;
-      }
-
-      // Disallow self-assassination
-      if (targetId === assassin.id) {
-        io.to(socket.id).emit("assassination_error", {
-          message: "Você não pode se assassinar — humor negro detectado.",
-        });
-        return;
-      }
-
-      const result = room.handleAssassination(targetId);
-
-      io.to(roomId).emit("assassination_result", {
-        success: result.success,
-        merlinId: result.merlinId,
-        targetId, // Include targetId so all clients know who was picked
-        phase: room.phase,
-      });
-
-      // Emit final game_over with winner determined by room.getWinner()
-      const winner = room.getWinner();
-      io.to(roomId).emit("game_over", {
-        winner: winner,
-        players: room.players.map((p) => ({
-          id: p.id,
-          nickname: p.nickname,
-          role: p.role,
-          specialRole: p.specialRole || null,
-        })),
-      });
-    }
-  );
 });
 
 const PORT = process.env.PORT || 3000;
 
-httpServer.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
+// Restore persisted rooms before accepting connections so reconnecting players find their game
+gameManager
+  .restoreRooms(io)
+  .catch((error) => console.error("Failed to restore rooms from store:", error))
+  .finally(() => {
+    httpServer.listen(PORT, () => {
+      console.log(`Server running on port ${PORT}`);
+    });
+  });
+
+// Flush pending room snapshots before the process exits (deploys send SIGTERM)
+const shutdown = async () => {
+  turnTimers.clearAll();
+  spectatorFeed.clearAll();
+  await gameManager.flush();
+  await roomStore?.close?.();
+  process.exit(0);
+};
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);